@@ -0,0 +1,260 @@
+/**
+ * Unit tests for the Apache Arrow adapter
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  tableFromIPC,
+  tableToIPC,
+  TimeUnit,
+  Type,
+  type Decimal,
+  type Timestamp,
+} from "apache-arrow";
+import {
+  TRINO_TYPE_METADATA_KEY,
+  toArrowIPC,
+  toArrowSchema,
+  toArrowTable,
+  toArrowType,
+  toRecordBatch,
+  toRecordBatches,
+} from "./arrow.js";
+import { decodeRow } from "./decode.js";
+import { ParameterKind, type ClientTypeSignature, type Column } from "./protocol.js";
+import { queryResults } from "./test-server.js";
+import type { QueryResult } from "./types.js";
+
+function type(
+  rawType: ClientTypeSignature["rawType"],
+  ...args: ClientTypeSignature["arguments"]
+): ClientTypeSignature {
+  return { rawType, arguments: args };
+}
+
+function typeArg(signature: ClientTypeSignature) {
+  return { kind: ParameterKind.TYPE, value: signature } as const;
+}
+
+function longArg(value: number) {
+  return { kind: ParameterKind.LONG, value } as const;
+}
+
+function fieldArg(name: string, signature: ClientTypeSignature) {
+  return {
+    kind: ParameterKind.NAMED_TYPE,
+    value: { fieldName: { name }, typeSignature: signature },
+  } as const;
+}
+
+function column(name: string, signature: ClientTypeSignature, typeName?: string): Column {
+  return { name, type: typeName ?? signature.rawType, typeSignature: signature };
+}
+
+function page(data: unknown[][] | undefined, columns?: Column[]): QueryResult<unknown[]> {
+  return {
+    ok: true,
+    value: { ...queryResults({ columns }), data },
+  };
+}
+
+async function* results(...pages: QueryResult<unknown[]>[]) {
+  yield* pages;
+}
+
+describe("toArrowType", () => {
+  test("should keep the precision and scale of decimals", () => {
+    const decimal = toArrowType(type("decimal", longArg(10), longArg(2))) as Decimal;
+    expect([decimal.typeId, decimal.precision, decimal.scale, decimal.bitWidth]).toEqual([
+      Type.Decimal,
+      10,
+      2,
+      128,
+    ]);
+  });
+
+  test("should pick the timestamp unit from the precision", () => {
+    const units = [0, 3, 6, 9, 12].map(
+      (precision) => (toArrowType(type("timestamp", longArg(precision))) as Timestamp).unit,
+    );
+    expect(units).toEqual([
+      TimeUnit.MILLISECOND,
+      TimeUnit.MILLISECOND,
+      TimeUnit.MICROSECOND,
+      TimeUnit.NANOSECOND,
+      TimeUnit.NANOSECOND,
+    ]);
+
+    const zoned = toArrowType(type("timestamp with time zone", longArg(6))) as Timestamp;
+    expect([zoned.unit, zoned.timezone]).toEqual([TimeUnit.MICROSECOND, "UTC"]);
+  });
+
+  test("should map nested types", () => {
+    const nested = toArrowType(
+      type(
+        "row",
+        fieldArg("tags", type("array", typeArg(type("varchar")))),
+        fieldArg("counts", type("map", typeArg(type("varchar")), typeArg(type("bigint")))),
+      ),
+    );
+    expect(String(nested)).toBe("Struct<{tags:List<Utf8>, counts:Map<{key:Utf8, value:Int64}>}>");
+  });
+
+  test("should fall back to strings", () => {
+    expect(toArrowType(type("uuid")).typeId).toBe(Type.Utf8);
+    expect(toArrowType(undefined).typeId).toBe(Type.Utf8);
+  });
+});
+
+describe("toArrowSchema", () => {
+  test("should use the column keys and record the Trino type", () => {
+    const schema = toArrowSchema([
+      column("id", type("integer")),
+      column("id", type("varchar", longArg(10)), "varchar(10)"),
+    ]);
+    expect(schema.fields.map((field) => field.name)).toEqual(["id", "id_2"]);
+    expect(schema.fields[1]!.metadata.get(TRINO_TYPE_METADATA_KEY)).toBe("varchar(10)");
+  });
+});
+
+describe("toRecordBatch", () => {
+  const columns = [
+    column("flag", type("boolean")),
+    column("small", type("integer")),
+    column("big", type("bigint")),
+    column("ratio", type("double")),
+    column("amount", type("decimal", longArg(38), longArg(2))),
+    column("day", type("date")),
+    column("at", type("timestamp", longArg(9))),
+    column("zoned", type("timestamp with time zone", longArg(6))),
+    column("clock", type("time", longArg(6))),
+    column("bytes", type("varbinary")),
+    column("name", type("varchar")),
+    column("tags", type("array", typeArg(type("varchar")))),
+    column("counts", type("map", typeArg(type("integer")), typeArg(type("bigint")))),
+    column("point", type("row", fieldArg("x", type("double")), fieldArg("y", type("double")))),
+  ];
+  const row = [
+    true,
+    -7,
+    "9007199254740993",
+    "NaN",
+    "-12345678901234567890.50",
+    "1969-12-31",
+    "2024-03-01 12:30:00.123456789",
+    "2024-03-01 12:30:00.123456 +01:00",
+    "12:30:00.500001",
+    "AAH/",
+    "hello",
+    ["a", null],
+    { "1": 10, "2": null },
+    [1.5, -2],
+  ];
+  const nulls = columns.map(() => null);
+
+  test("should encode raw and decoded rows the same way", () => {
+    for (const rows of [
+      [row, nulls],
+      [decodeRow(row, columns), decodeRow(nulls, columns)],
+    ]) {
+      const batch = toRecordBatch(columns, rows);
+      expect(batch.numRows).toBe(2);
+      const [values, empty] = batch.toArray().map((r) => r.toJSON());
+
+      expect(values).toMatchObject({
+        flag: true,
+        small: -7,
+        big: 9007199254740993n,
+        day: -86_400_000,
+        name: "hello",
+      });
+      expect(Number.isNaN(values!["ratio"])).toBe(true);
+      expect(values!["bytes"]).toEqual(new Uint8Array([0, 1, 255]));
+      expect([...values!["tags"]]).toEqual(["a", null]);
+      expect([...values!["counts"]].map((entry) => [...entry])).toEqual([
+        [1, 10n],
+        [2, null],
+      ]);
+      expect(values!["point"].toJSON()).toEqual({ x: 1.5, y: -2 });
+      expect(Object.values(empty!).every((value) => value === null)).toBe(true);
+    }
+  });
+
+  test("should keep the full precision of decimals and timestamps from raw rows", () => {
+    const batch = toRecordBatch(columns, [row]);
+    const words = batch.getChild("amount")!.data[0]!.values as Uint32Array;
+    const unscaled = words.reduceRight((value, word) => (value << 32n) | BigInt(word), 0n);
+    expect(BigInt.asIntN(128, unscaled)).toBe(-1234567890123456789050n);
+
+    expect(batch.getChild("at")!.data[0]!.values[0]).toBe(1709296200123456789n);
+    expect(batch.getChild("zoned")!.data[0]!.values[0]).toBe(1709292600123456n);
+    expect(batch.getChild("clock")!.data[0]!.values[0]).toBe(45_000_500_001n);
+  });
+
+  test("should read object rows by column key", () => {
+    const batch = toRecordBatch(columns.slice(1, 3), [{ small: 1, big: 2 }]);
+    expect(batch.toArray().map((r) => r.toJSON())).toEqual([{ small: 1, big: 2n }]);
+  });
+});
+
+describe("toRecordBatches", () => {
+  const columns = [column("id", type("bigint"))];
+
+  test("should build a batch per page of rows", async () => {
+    const batches = await Array.fromAsync(
+      toRecordBatches(results(page(undefined, columns), page([[1], [2]], columns), page([[3]]))),
+    );
+    expect(batches.map((batch) => batch.ok && batch.value.numRows)).toEqual([2, 1]);
+  });
+
+  test("should yield an empty batch for a query without rows", async () => {
+    const batches = await Array.fromAsync(toRecordBatches(results(page(undefined, columns))));
+    expect(batches.map((batch) => batch.ok && batch.value.numRows)).toEqual([0]);
+    expect(await Array.fromAsync(toRecordBatches(results(page(undefined))))).toEqual([]);
+  });
+
+  test("should yield the query error and stop", async () => {
+    const batches = await Array.fromAsync(
+      toRecordBatches(
+        results(page([[1]], columns), {
+          ok: false,
+          error: { _tag: "FetchError", error: new Error("connection reset") },
+        }),
+      ),
+    );
+    expect(batches.map((batch) => batch.ok)).toEqual([true, false]);
+  });
+});
+
+describe("toArrowIPC", () => {
+  const columns = [column("id", type("bigint")), column("name", type("varchar"))];
+
+  test("should write a readable IPC stream with a chunk per page", async () => {
+    const chunks: Uint8Array[] = [];
+    const pages = results(page([[1, "a"]], columns), page(undefined), page([[2, null]]));
+    for await (const chunk of toArrowIPC(pages)) {
+      if (!chunk.ok) {
+        throw new Error(chunk.error._tag);
+      }
+      chunks.push(chunk.value);
+    }
+
+    // Schema and first batch, second batch, end-of-stream marker
+    expect(chunks).toHaveLength(3);
+    const table = tableFromIPC(Buffer.concat(chunks));
+    expect(Buffer.concat(chunks)).toEqual(Buffer.from(tableToIPC(table, "stream")));
+    expect(table.schema.fields.map((field) => field.name)).toEqual(["id", "name"]);
+    expect(table.toArray().map((r) => r.toJSON())).toEqual([
+      { id: 1n, name: "a" },
+      { id: 2n, name: null },
+    ]);
+  });
+});
+
+describe("toArrowTable", () => {
+  test("should collect all pages into a table", async () => {
+    const columns = [column("id", type("integer"))];
+    const table = await toArrowTable(results(page([[1], [2]], columns), page([[3]])));
+    expect(table.ok && table.value.getChild("id")!.toArray()).toEqual(Int32Array.of(1, 2, 3));
+  });
+});
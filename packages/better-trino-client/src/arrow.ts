@@ -0,0 +1,657 @@
+/**
+ * Apache Arrow output for query results
+ * Imported from @better-trino/client/arrow, so only applications that use it need the apache-arrow peer
+ * dependency
+ *
+ * Each page of rows becomes a record batch whose schema is derived from the column type signatures, so
+ * results can be handed to DuckDB, Polars or any other Arrow consumer without a JSON round trip
+ *
+ * @example
+ * import { toArrowTable } from "@better-trino/client/arrow";
+ * const table = await toArrowTable(client.executeQuery("SELECT * FROM nation"));
+ */
+
+import {
+  Binary,
+  Bool,
+  DateDay,
+  Decimal,
+  Duration,
+  Field,
+  Float32,
+  Float64,
+  Int16,
+  Int32,
+  Int64,
+  Int8,
+  Interval,
+  IntervalUnit,
+  List,
+  Map_,
+  RecordBatch,
+  RecordBatchStreamWriter,
+  Schema,
+  Struct,
+  Table,
+  Time,
+  Timestamp,
+  TimeUnit,
+  Type,
+  Utf8,
+  makeData,
+  type Data,
+  type DataType,
+  type Float,
+  type Int,
+} from "apache-arrow";
+import { decodeValue, type TrinoDecimal } from "./decode.js";
+import { ClientStandardTypes, type ClientTypeSignature, type Column } from "./protocol.js";
+import { columnKeys } from "./rows.js";
+import { longArgument, rowFields, typeArgument } from "./signature.js";
+import type { QueryErrorResult, QueryResult, Result } from "./types.js";
+
+/** Key of the field metadata entry holding the Trino type of a column */
+export const TRINO_TYPE_METADATA_KEY = "trino.type";
+
+/**
+ * Map a Trino type signature to an Arrow data type
+ *
+ * Mapping:
+ * - boolean → Bool, tinyint/smallint/integer/bigint → Int8/Int16/Int32/Int64
+ * - real, double → Float32, Float64
+ * - decimal(p, s) → Decimal128 with the same precision and scale
+ * - date → DateDay
+ * - timestamp(p) → Timestamp in milliseconds (p ≤ 3), microseconds (p ≤ 6) or nanoseconds
+ * - timestamp(p) with time zone → the same, normalized to UTC
+ * - time(p) → Time with the same units as timestamps
+ * - interval day to second → Duration in milliseconds, interval year to month → Interval (year-month)
+ * - varbinary → Binary
+ * - array → List, map → Map, row → Struct (`field0`, `field1`, ... for anonymous fields)
+ * - everything else (varchar, char, json, uuid, time with time zone, ...) → Utf8
+ */
+export function toArrowType(signature: ClientTypeSignature | undefined): DataType {
+  switch (signature?.rawType) {
+    case ClientStandardTypes.BOOLEAN:
+      return new Bool();
+    case ClientStandardTypes.TINYINT:
+      return new Int8();
+    case ClientStandardTypes.SMALLINT:
+      return new Int16();
+    case ClientStandardTypes.INTEGER:
+      return new Int32();
+    case ClientStandardTypes.BIGINT:
+      return new Int64();
+    case ClientStandardTypes.REAL:
+      return new Float32();
+    case ClientStandardTypes.DOUBLE:
+      return new Float64();
+    case ClientStandardTypes.DECIMAL:
+      return new Decimal(longArgument(signature, 1) ?? 0, longArgument(signature, 0) ?? 38, 128);
+    case ClientStandardTypes.DATE:
+      return new DateDay();
+    case ClientStandardTypes.TIMESTAMP:
+      return new Timestamp(timeUnit(signature));
+    case ClientStandardTypes.TIMESTAMP_WITH_TIME_ZONE:
+      return new Timestamp(timeUnit(signature), "UTC");
+    case ClientStandardTypes.TIME: {
+      const unit = timeUnit(signature);
+      return new Time(unit, unit === TimeUnit.MILLISECOND ? 32 : 64);
+    }
+    case ClientStandardTypes.INTERVAL_DAY_TO_SECOND:
+      return new Duration(TimeUnit.MILLISECOND);
+    case ClientStandardTypes.INTERVAL_YEAR_TO_MONTH:
+      return new Interval(IntervalUnit.YEAR_MONTH);
+    case ClientStandardTypes.VARBINARY:
+      return new Binary();
+    case ClientStandardTypes.ARRAY:
+      return new List(new Field("item", toArrowType(typeArgument(signature, 0)), true));
+    case ClientStandardTypes.MAP:
+      return new Map_(
+        new Field(
+          "entries",
+          new Struct<{ key: DataType; value: DataType }>([
+            new Field("key", toArrowType(typeArgument(signature, 0)), false),
+            new Field("value", toArrowType(typeArgument(signature, 1)), true),
+          ]),
+          false,
+        ),
+      );
+    case ClientStandardTypes.ROW:
+      return new Struct(
+        rowFields(signature).map(({ name, type }) => new Field(name, toArrowType(type), true)),
+      );
+    default:
+      return new Utf8();
+  }
+}
+
+/**
+ * Create the Arrow schema of query results
+ * Field names are the column keys of rowFormat "object" and each field records the Trino type in its metadata
+ */
+export function toArrowSchema(columns: Column[]): Schema {
+  const keys = columnKeys(columns);
+  return new Schema(
+    columns.map(
+      (column, index) =>
+        new Field(
+          keys[index]!,
+          toArrowType(column.typeSignature),
+          true,
+          new Map([[TRINO_TYPE_METADATA_KEY, column.type]]),
+        ),
+    ),
+  );
+}
+
+/**
+ * Build a record batch from rows of the given columns
+ * Rows may be raw or decoded, as positional arrays or objects (rowFormat "object")
+ */
+export function toRecordBatch(columns: Column[], rows: unknown[]): RecordBatch {
+  const schema = toArrowSchema(columns);
+  const keys = columnKeys(columns);
+  const children = columns.map((column, index) =>
+    encode(
+      schema.fields[index]!.type,
+      column.typeSignature,
+      rows.map((row) =>
+        Array.isArray(row) ? row[index] : (row as Record<string, unknown>)[keys[index]!],
+      ),
+    ),
+  );
+
+  return new RecordBatch(
+    schema,
+    makeData({
+      type: new Struct(schema.fields),
+      length: rows.length,
+      nullCount: 0,
+      children,
+    }),
+  );
+}
+
+/**
+ * Convert the results of executeQuery into a record batch per page of rows
+ * A query that returns no rows yields a single empty batch, so consumers always receive the schema
+ * A failed query yields its error and ends
+ * @param results - Results of executeQuery
+ */
+export async function* toRecordBatches(
+  results: AsyncIterable<QueryResult<unknown>>,
+): AsyncGenerator<Result<RecordBatch, QueryErrorResult>, void> {
+  let columns: Column[] | undefined;
+  let batches = 0;
+
+  for await (const result of results) {
+    if (!result.ok) {
+      yield result;
+      return;
+    }
+
+    columns ??= result.value.columns;
+    const rows = result.value.data;
+    if (columns && rows?.length) {
+      batches++;
+      yield { ok: true, value: toRecordBatch(columns, rows) };
+    }
+  }
+
+  if (columns && batches === 0) {
+    yield { ok: true, value: toRecordBatch(columns, []) };
+  }
+}
+
+/**
+ * Convert the results of executeQuery into the Arrow IPC streaming format
+ * Yields the bytes of a record batch per page, preceded by the schema and followed by the end-of-stream marker
+ * A failed query yields its error and ends the output, which is then incomplete
+ * @param results - Results of executeQuery
+ *
+ * @example
+ * for await (const chunk of toArrowIPC(client.executeQuery("SELECT * FROM orders"))) {
+ *   if (!chunk.ok) throw new Error(chunk.error._tag);
+ *   file.write(chunk.value);
+ * }
+ */
+export async function* toArrowIPC(
+  results: AsyncIterable<QueryResult<unknown>>,
+): AsyncGenerator<Result<Uint8Array, QueryErrorResult>, void> {
+  const writer = new RecordBatchStreamWriter();
+  // The writer buffers its output until it is read, so the bytes of each page are read back through its
+  // iterator to release them
+  const output = writer[Symbol.asyncIterator]();
+  const take = async (): Promise<Uint8Array> => {
+    const bytes = writer.toUint8Array(true);
+    for (let read = 0; read < bytes.byteLength; ) {
+      const chunk = await output.next();
+      if (chunk.done) {
+        break;
+      }
+      read += chunk.value.byteLength;
+    }
+    return bytes;
+  };
+
+  try {
+    for await (const batch of toRecordBatches(results)) {
+      if (!batch.ok) {
+        yield batch;
+        return;
+      }
+      writer.write(batch.value);
+      yield { ok: true, value: await take() };
+    }
+
+    // Writes the end-of-stream marker, if a schema was written
+    writer.finish();
+    const end = await take();
+    if (end.byteLength > 0) {
+      yield { ok: true, value: end };
+    }
+  } finally {
+    writer.close();
+  }
+}
+
+/**
+ * Collect the results of executeQuery into an Arrow table
+ * @param results - Results of executeQuery
+ * @returns The table, empty with no columns for statements without a result set
+ */
+export async function toArrowTable(
+  results: AsyncIterable<QueryResult<unknown>>,
+): Promise<Result<Table, QueryErrorResult>> {
+  const batches: RecordBatch[] = [];
+  for await (const batch of toRecordBatches(results)) {
+    if (!batch.ok) {
+      return batch;
+    }
+    batches.push(batch.value);
+  }
+  return { ok: true, value: new Table(batches) };
+}
+
+/**
+ * Encode the values of a column (or of a nested field) as Arrow data of the given type
+ */
+function encode(
+  type: DataType,
+  signature: ClientTypeSignature | undefined,
+  values: unknown[],
+): Data {
+  switch (type.typeId) {
+    case Type.Bool: {
+      const converted = values.map((value) =>
+        value === null || value === undefined ? null : value === true || value === "true",
+      );
+      const data = new Uint8Array(bitmapLength(converted.length));
+      converted.forEach((value, index) => value && setBit(data, index));
+      return makeData({ type: type as Bool, ...validity(converted), data });
+    }
+    case Type.Int: {
+      const int = type as Int;
+      if (int.bitWidth === 64) {
+        const converted = values.map(toBigInt);
+        return makeData({
+          type: int,
+          ...validity(converted),
+          data: BigInt64Array.from(converted, (value) => value ?? 0n),
+        });
+      }
+      const converted = values.map(toNumber);
+      const ArrayType =
+        int.bitWidth === 8 ? Int8Array : int.bitWidth === 16 ? Int16Array : Int32Array;
+      return makeData({
+        type: int,
+        ...validity(converted),
+        data: new ArrayType(converted.map((value) => value ?? 0)),
+      });
+    }
+    case Type.Float: {
+      const float = type as Float;
+      const converted = values.map(toNumber);
+      return makeData({
+        type: float,
+        ...validity(converted),
+        data: new float.ArrayType(converted.map((value) => value ?? 0)),
+      });
+    }
+    case Type.Decimal: {
+      const decimal = type as Decimal;
+      const converted = values.map((value) => toUnscaled(value, decimal.scale));
+      const data = new Uint32Array(converted.length * 4);
+      converted.forEach((value, index) => {
+        // 128-bit two's complement, least significant word first
+        let bits = BigInt.asUintN(128, value ?? 0n);
+        for (let word = 0; word < 4; word++) {
+          data[index * 4 + word] = Number(bits & 0xffffffffn);
+          bits >>= 32n;
+        }
+      });
+      return makeData({ type: decimal, ...validity(converted), data });
+    }
+    case Type.Date: {
+      const converted = values.map((value) => {
+        const millis = toEpochMillis(value, signature);
+        return millis === null ? null : Math.floor(millis / 86_400_000);
+      });
+      return makeData({
+        type: type as DateDay,
+        ...validity(converted),
+        data: Int32Array.from(converted, (value) => value ?? 0),
+      });
+    }
+    case Type.Timestamp: {
+      const unit = (type as Timestamp).unit;
+      const converted = values.map((value) => toTimestamp(value, signature, unit));
+      return makeData({
+        type: type as Timestamp,
+        ...validity(converted),
+        data: BigInt64Array.from(converted, (value) => value ?? 0n),
+      });
+    }
+    case Type.Time: {
+      const time = type as Time;
+      const converted = values.map((value) => toTimeOfDay(value, time.unit));
+      return makeData({
+        type: time,
+        ...validity(converted),
+        data:
+          time.bitWidth === 32
+            ? Int32Array.from(converted, (value) => Number(value ?? 0))
+            : BigInt64Array.from(converted, (value) => value ?? 0n),
+      });
+    }
+    case Type.Duration: {
+      const converted = values.map((value) => {
+        const millis = signature ? toNumber(decodeNonNull(value, signature)) : null;
+        return millis === null ? null : BigInt(Math.round(millis));
+      });
+      return makeData({
+        type: type as Duration,
+        ...validity(converted),
+        data: BigInt64Array.from(converted, (value) => value ?? 0n),
+      });
+    }
+    case Type.Interval: {
+      const converted = values.map((value) =>
+        signature ? toNumber(decodeNonNull(value, signature)) : null,
+      );
+      return makeData({
+        type: type as Interval,
+        ...validity(converted),
+        data: Int32Array.from(converted, (value) => value ?? 0),
+      });
+    }
+    case Type.Binary: {
+      const converted = values.map((value) => {
+        const bytes = signature ? decodeNonNull(value, signature) : value;
+        return bytes instanceof Uint8Array ? bytes : null;
+      });
+      return makeData({ type: type as Binary, ...validity(converted), ...concatBytes(converted) });
+    }
+    case Type.List: {
+      const list = type as List;
+      const elementType = signature && typeArgument(signature, 0);
+      const converted = values.map((value) => (Array.isArray(value) ? value : null));
+      const valueOffsets = new Int32Array(converted.length + 1);
+      converted.forEach((value, index) => {
+        valueOffsets[index + 1] = valueOffsets[index]! + (value?.length ?? 0);
+      });
+      return makeData({
+        type: list,
+        ...validity(converted),
+        valueOffsets,
+        child: encode(
+          list.valueType,
+          elementType,
+          converted.flatMap((value) => value ?? []),
+        ),
+      });
+    }
+    case Type.Map: {
+      const map = type as Map_;
+      const converted = values.map((value): [unknown, unknown][] | null =>
+        value instanceof Map
+          ? [...value]
+          : typeof value === "object" && value !== null && !Array.isArray(value)
+            ? Object.entries(value)
+            : null,
+      );
+      const valueOffsets = new Int32Array(converted.length + 1);
+      converted.forEach((value, index) => {
+        valueOffsets[index + 1] = valueOffsets[index]! + (value?.length ?? 0);
+      });
+      const entries = converted.flatMap((value) => value ?? []);
+      const [keyField, valueField] = map.children[0]!.type.children;
+      return makeData({
+        type: map,
+        ...validity(converted),
+        valueOffsets,
+        child: makeData({
+          type: map.children[0]!.type,
+          length: entries.length,
+          nullCount: 0,
+          children: [
+            encode(
+              keyField!.type,
+              signature && typeArgument(signature, 0),
+              entries.map(([key]) => key),
+            ),
+            encode(
+              valueField!.type,
+              signature && typeArgument(signature, 1),
+              entries.map(([, value]) => value),
+            ),
+          ],
+        }),
+      });
+    }
+    case Type.Struct: {
+      const struct = type as Struct;
+      const fields = signature ? rowFields(signature) : [];
+      // Raw rows are positional, decoded rows are keyed by field name
+      const converted = values.map((value) =>
+        typeof value === "object" && value !== null ? (value as Record<string, unknown>) : null,
+      );
+      return makeData({
+        type: struct,
+        ...validity(converted),
+        children: struct.children.map((field, index) =>
+          encode(
+            field.type,
+            fields[index]?.type,
+            converted.map((value) =>
+              value === null ? null : Array.isArray(value) ? value[index] : value[field.name],
+            ),
+          ),
+        ),
+      });
+    }
+    default: {
+      const encoder = new TextEncoder();
+      const converted = values.map((value) =>
+        value === null || value === undefined ? null : encoder.encode(toText(value)),
+      );
+      return makeData({ type: type as Utf8, ...validity(converted), ...concatBytes(converted) });
+    }
+  }
+}
+
+/**
+ * Length, null count and validity bitmap of converted values, where null marks a missing value
+ */
+function validity(values: unknown[]): {
+  length: number;
+  nullCount: number;
+  nullBitmap: Uint8Array;
+} {
+  const nullBitmap = new Uint8Array(bitmapLength(values.length));
+  let nullCount = 0;
+  values.forEach((value, index) => {
+    if (value === null) {
+      nullCount++;
+    } else {
+      setBit(nullBitmap, index);
+    }
+  });
+  return { length: values.length, nullCount, nullBitmap };
+}
+
+function bitmapLength(length: number): number {
+  // Arrow buffers are padded to a multiple of 8 bytes
+  return Math.ceil(length / 64) * 8;
+}
+
+function setBit(bitmap: Uint8Array, index: number): void {
+  bitmap[index >> 3]! |= 1 << (index & 7);
+}
+
+/**
+ * Offsets and data buffer of variable-width binary values
+ */
+function concatBytes(values: (Uint8Array | null)[]): {
+  valueOffsets: Int32Array;
+  data: Uint8Array;
+} {
+  const valueOffsets = new Int32Array(values.length + 1);
+  values.forEach((value, index) => {
+    valueOffsets[index + 1] = valueOffsets[index]! + (value?.byteLength ?? 0);
+  });
+  const data = new Uint8Array(valueOffsets[values.length]!);
+  values.forEach((value, index) => value && data.set(value, valueOffsets[index]!));
+  return { valueOffsets, data };
+}
+
+/**
+ * Decode a raw value with the built-in decoders, passing decoded values through unchanged
+ */
+function decodeNonNull(value: unknown, signature: ClientTypeSignature): unknown {
+  return value === null || value === undefined ? null : decodeValue(value, signature);
+}
+
+/**
+ * Convert a number, or its string form (e.g., a map key or "NaN"), to a number
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "bigint" || typeof value === "string") {
+    const number = Number(value);
+    return Number.isNaN(number) && value !== "NaN" ? null : number;
+  }
+  return null;
+}
+
+function toBigInt(value: unknown): bigint | null {
+  if (typeof value === "bigint") {
+    return value;
+  }
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === "string" && /^-?\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  return null;
+}
+
+/**
+ * Unscaled integer value of a decimal (e.g., "12.5" with scale 2 → 1250n)
+ * Digits beyond the scale are truncated
+ */
+function toUnscaled(value: unknown, scale: number): bigint | null {
+  const text =
+    typeof value === "object" && value !== null && (value as TrinoDecimal)._tag === "Decimal"
+      ? (value as TrinoDecimal).value
+      : typeof value === "string" || typeof value === "number" || typeof value === "bigint"
+        ? String(value)
+        : null;
+  const match = text === null ? null : /^([+-])?(\d*)(?:\.(\d*))?$/.exec(text.trim());
+  if (!match || (!match[2] && !match[3])) {
+    return null;
+  }
+  const [, sign, integer = "", fraction = ""] = match;
+  const unscaled = BigInt(`${integer}${fraction.slice(0, scale).padEnd(scale, "0")}` || "0");
+  return sign === "-" ? -unscaled : unscaled;
+}
+
+/**
+ * Milliseconds since epoch of a date or timestamp value, raw or decoded
+ */
+function toEpochMillis(value: unknown, signature: ClientTypeSignature | undefined): number | null {
+  const date = value instanceof Date || !signature ? value : decodeNonNull(value, signature);
+  return date instanceof Date && !Number.isNaN(date.getTime()) ? date.getTime() : null;
+}
+
+const FRACTION_PATTERN = /\d{2}:\d{2}:\d{2}\.(\d+)/;
+
+/**
+ * Timestamp in the given unit, keeping the sub-millisecond digits of raw values that JS dates cannot hold
+ */
+function toTimestamp(
+  value: unknown,
+  signature: ClientTypeSignature | undefined,
+  unit: TimeUnit,
+): bigint | null {
+  const millis = toEpochMillis(value, signature);
+  if (millis === null) {
+    return null;
+  }
+  const fraction = typeof value === "string" ? (FRACTION_PATTERN.exec(value)?.[1] ?? "") : "";
+  switch (unit) {
+    case TimeUnit.MICROSECOND:
+      return BigInt(millis) * 1000n + BigInt(fraction.slice(3, 6).padEnd(3, "0"));
+    case TimeUnit.NANOSECOND:
+      return BigInt(millis) * 1_000_000n + BigInt(fraction.slice(3, 9).padEnd(6, "0"));
+    default:
+      return BigInt(millis);
+  }
+}
+
+const TIME_PATTERN = /^(\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?$/;
+
+/**
+ * Time since midnight in the given unit, from Trino's time format (e.g., "12:30:00.123456")
+ */
+function toTimeOfDay(value: unknown, unit: TimeUnit): bigint | null {
+  const match = typeof value === "string" ? TIME_PATTERN.exec(value) : null;
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, fraction = ""] = match;
+  const digits = unit === TimeUnit.NANOSECOND ? 9 : unit === TimeUnit.MICROSECOND ? 6 : 3;
+  const total = (Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds);
+  return (
+    BigInt(total) * 10n ** BigInt(digits) + BigInt(fraction.slice(0, digits).padEnd(digits, "0"))
+  );
+}
+
+/**
+ * Text of a Utf8 value: strings as is and anything else (e.g., decoded json) as JSON
+ */
+function toText(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value, (_key, inner: unknown) =>
+      typeof inner === "bigint" ? inner.toString() : inner,
+    );
+  }
+  return String(value);
+}
+
+/**
+ * Arrow time unit for the precision of a timestamp or time type (default: 3, as for a bare timestamp)
+ */
+function timeUnit(signature: ClientTypeSignature): TimeUnit {
+  const precision = longArgument(signature, 0) ?? 3;
+  if (precision <= 3) {
+    return TimeUnit.MILLISECOND;
+  }
+  return precision <= 6 ? TimeUnit.MICROSECOND : TimeUnit.NANOSECOND;
+}
@@ -0,0 +1,332 @@
+/**
+ * Tests for OAuth2 external authentication
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from "bun:test";
+import { Trino } from "./index.js";
+import { parseOAuth2Challenge, TokenCache } from "./auth.js";
+import { startStubServer, type StubRequest } from "./test-server.js";
+
+function describeRequest(request: StubRequest): string {
+  return `${request.method} ${request.path} ${request.headers.get("authorization") ?? "-"}`;
+}
+
+describe("parseOAuth2Challenge", () => {
+  test("should parse the token and redirect servers", () => {
+    expect(
+      parseOAuth2Challenge(
+        'Bearer x_redirect_server="https://trino/oauth2/token/initiate/abc", x_token_server="https://trino/oauth2/token/abc"',
+      ),
+    ).toEqual({
+      redirectUri: "https://trino/oauth2/token/initiate/abc",
+      tokenUri: "https://trino/oauth2/token/abc",
+    });
+    expect(parseOAuth2Challenge('Bearer x_token_server="https://trino/t"')).toEqual({
+      redirectUri: undefined,
+      tokenUri: "https://trino/t",
+    });
+  });
+
+  test("should ignore challenges without a token server", () => {
+    expect(parseOAuth2Challenge('Basic realm="Trino"')).toBeUndefined();
+    expect(parseOAuth2Challenge('Bearer realm="Trino"')).toBeUndefined();
+    expect(parseOAuth2Challenge(null)).toBeUndefined();
+  });
+});
+
+describe("OAuth2 authentication", () => {
+  let tokenError: string | undefined;
+  // Holds the next poll until released, as if the user had not authenticated yet
+  let holding = false;
+  let release: (() => void) | undefined;
+
+  const server = startStubServer({
+    pages: [{ data: [[1]] }],
+    handle: (request) => {
+      if (request.path.startsWith("/oauth2/token")) {
+        if (tokenError) {
+          return Response.json({ error: tokenError });
+        }
+        if (holding) {
+          holding = false;
+          return new Promise<Response>((resolve) => {
+            release = () => resolve(Response.json({ nextUri: `${server.url}oauth2/token/abc/2` }));
+          });
+        }
+        // The first poll answers before the user has authenticated
+        return request.path === "/oauth2/token/abc"
+          ? Response.json({ nextUri: `${server.url}oauth2/token/abc/2` })
+          : Response.json({ token: "issued-token" });
+      }
+
+      if (request.headers.get("authorization") !== "Bearer issued-token") {
+        return new Response(null, {
+          status: 401,
+          headers: {
+            "WWW-Authenticate": `Bearer x_redirect_server="${server.url}oauth2/token/initiate/abc", x_token_server="${server.url}oauth2/token/abc"`,
+          },
+        });
+      }
+      return undefined;
+    },
+  });
+  const requests = () => server.requests.map(describeRequest);
+  const tokenPolls = () =>
+    server.requests.filter((request) => request.path.startsWith("/oauth2/token")).length;
+
+  beforeEach(() => {
+    server.reset();
+    tokenError = undefined;
+    holding = false;
+    release = undefined;
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  // Wait until the next poll of the token server is held
+  async function hold() {
+    holding = true;
+    release = undefined;
+    while (!release) {
+      await Bun.sleep(1);
+    }
+  }
+
+  async function collect(client: Trino, signal?: AbortSignal) {
+    const results = [];
+    for await (const result of client.executeQuery("SELECT 1", { signal })) {
+      results.push(result);
+    }
+    return results;
+  }
+
+  test("should redirect, poll for the token, and retry the statement", async () => {
+    const redirects: string[] = [];
+    const client = new Trino({
+      baseUrl: server.url,
+      auth: { type: "oauth2", onRedirect: (url) => void redirects.push(url) },
+    });
+
+    const results = await collect(client);
+    expect(results.map((r) => r.ok)).toEqual([true]);
+    expect(redirects).toEqual([`${server.url}oauth2/token/initiate/abc`]);
+    expect(requests()).toEqual([
+      "POST /v1/statement -",
+      "GET /oauth2/token/abc -",
+      "GET /oauth2/token/abc/2 -",
+      "POST /v1/statement Bearer issued-token",
+    ]);
+
+    // The token is cached for later queries
+    server.reset();
+    await collect(client);
+    expect(requests()).toEqual(["POST /v1/statement Bearer issued-token"]);
+  });
+
+  test("should share one flow between concurrent queries", async () => {
+    let redirects = 0;
+    const client = new Trino({
+      baseUrl: server.url,
+      auth: { type: "oauth2", onRedirect: () => void redirects++ },
+    });
+
+    const results = await Promise.all([collect(client), collect(client), collect(client)]);
+    expect(results.flat().every((r) => r.ok)).toBe(true);
+    expect(redirects).toBe(1);
+    expect(tokenPolls()).toBe(2);
+  });
+
+  test("should stop polling once every waiting query is aborted", async () => {
+    const client = new Trino({
+      baseUrl: server.url,
+      auth: { type: "oauth2", onRedirect: () => {} },
+    });
+
+    // The flow goes on for the query that is still waiting
+    const first = new AbortController();
+    const aborted = collect(client, first.signal);
+    const waiting = collect(client);
+    await hold();
+    first.abort();
+    release!();
+    expect((await aborted).map((r) => !r.ok && r.error._tag)).toEqual(["AbortError"]);
+    expect((await waiting).map((r) => r.ok)).toEqual([true]);
+
+    const other = new Trino({
+      baseUrl: server.url,
+      auth: { type: "oauth2", onRedirect: () => {} },
+    });
+    server.reset();
+    const second = new AbortController();
+    const abandoned = collect(other, second.signal);
+    await hold();
+    second.abort();
+    expect((await abandoned).map((r) => !r.ok && r.error._tag)).toEqual(["AbortError"]);
+    release!();
+    await Bun.sleep(20);
+    expect(tokenPolls()).toBe(1);
+  });
+
+  test("should keep polling for a waiter without a signal once the signalled ones are aborted", async () => {
+    const client = new Trino({
+      baseUrl: server.url,
+      auth: { type: "oauth2", onRedirect: () => {} },
+    });
+    const cancelled = client.cancelQuery(`${server.url}v1/statement/executing/query_1/1`);
+    const signalled = new AbortController();
+    const aborted = collect(client, signalled.signal);
+    await hold();
+    signalled.abort();
+    expect((await aborted).map((r) => !r.ok && r.error._tag)).toEqual(["AbortError"]);
+
+    release!();
+    expect(await cancelled).toEqual({ ok: true, value: undefined });
+    expect(tokenPolls()).toBe(2);
+    expect(requests().at(-1)).toBe("DELETE /v1/statement/executing/query_1/1 Bearer issued-token");
+  });
+
+  test("should yield AuthenticationError when the token server reports an error", async () => {
+    tokenError = "access denied";
+    const client = new Trino({
+      baseUrl: server.url,
+      auth: { type: "oauth2", onRedirect: () => {} },
+    });
+
+    const results = await collect(client);
+    expect(results).toEqual([
+      {
+        ok: false,
+        error: { _tag: "AuthenticationError", message: "Authentication failed: access denied" },
+      },
+    ]);
+  });
+});
+
+describe("TokenCache", () => {
+  test("should cache tokens until they are about to expire", async () => {
+    let calls = 0;
+    let expiresAt = Date.now() + 60_000;
+    const cache = new TokenCache({
+      type: "token",
+      getToken: async () => ({ token: `token-${++calls}`, expiresAt }),
+      refreshBeforeExpiryMs: 10_000,
+    });
+
+    expect(await cache.get()).toBe("token-1");
+    expect(await cache.get()).toBe("token-1");
+
+    expiresAt = Date.now() + 5_000;
+    expect(await cache.get("token-1")).toBe("token-2");
+    // Within the refresh margin
+    expect(await cache.get()).toBe("token-3");
+  });
+
+  test("should share provider calls and only refresh a rejected token once", async () => {
+    let calls = 0;
+    const cache = new TokenCache({ type: "token", getToken: async () => `token-${++calls}` });
+
+    expect(await Promise.all([cache.get(), cache.get()])).toEqual(["token-1", "token-1"]);
+    expect(await cache.get("token-1")).toBe("token-2");
+    // A request that failed with the old token gets the refreshed one
+    expect(await cache.get("token-1")).toBe("token-2");
+  });
+});
+
+describe("Token provider authentication", () => {
+  // Tokens the stub server accepts; the first request of a query is accepted with any token
+  let validTokens = new Set<string>();
+
+  const server = startStubServer({
+    pages: [{}, {}],
+    handle: (request) => {
+      const authorization = request.headers.get("authorization") ?? "-";
+      if (!validTokens.has(authorization.replace("Bearer ", ""))) {
+        return new Response(null, { status: 401 });
+      }
+      if (request.method !== "DELETE") {
+        // The token expires while the query runs
+        validTokens.delete("token-1");
+      }
+      return undefined;
+    },
+  });
+  const requests = () => server.requests.map(describeRequest);
+
+  beforeEach(() => {
+    validTokens = new Set(["token-1", "token-2"]);
+    server.reset();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  function createClient() {
+    let calls = 0;
+    return new Trino({
+      baseUrl: server.url,
+      auth: { type: "token", getToken: async () => `token-${++calls}` },
+    });
+  }
+
+  test("should refresh the token on 401 and retry the request once", async () => {
+    const results = [];
+    for await (const result of createClient().executeQuery("SELECT 1")) {
+      results.push(result);
+    }
+
+    expect(results.every((r) => r.ok)).toBe(true);
+    expect(requests()).toEqual([
+      "POST /v1/statement Bearer token-1",
+      "GET /v1/statement/executing/query_1/1 Bearer token-1",
+      "GET /v1/statement/executing/query_1/1 Bearer token-2",
+    ]);
+  });
+
+  test("should yield HttpError when the refreshed token is rejected too", async () => {
+    validTokens = new Set(["token-1"]);
+    const results = [];
+    for await (const result of createClient().executeQuery("SELECT 1")) {
+      results.push(result);
+    }
+
+    const last = results[results.length - 1]!;
+    expect(!last.ok && last.error._tag === "HttpError" && last.error.response.status).toBe(401);
+  });
+
+  test("should refresh the token for cancelQuery", async () => {
+    validTokens = new Set(["token-2"]);
+    const result = await createClient().cancelQuery(
+      `${server.url}v1/statement/executing/query_1/1`,
+    );
+
+    expect(result.ok).toBe(true);
+    expect(requests()).toEqual([
+      "DELETE /v1/statement/executing/query_1/1 Bearer token-1",
+      "DELETE /v1/statement/executing/query_1/1 Bearer token-2",
+    ]);
+  });
+
+  test("should yield AuthenticationError when the provider fails", async () => {
+    const client = new Trino({
+      baseUrl: server.url,
+      auth: {
+        type: "token",
+        getToken: async () => {
+          throw new Error("vault unavailable");
+        },
+      },
+    });
+
+    const results = [];
+    for await (const result of client.executeQuery("SELECT 1")) {
+      results.push(result);
+    }
+    expect(results).toEqual([
+      { ok: false, error: { _tag: "AuthenticationError", message: "vault unavailable" } },
+    ]);
+    expect(requests()).toEqual([]);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Authentication configuration and the OAuth2 external authentication flow
+ *
+ * @see https://trino.io/docs/current/security/oauth2.html
+ * @see https://github.com/trinodb/trino/blob/master/client/trino-client/src/main/java/io/trino/client/auth/external/ExternalAuthenticator.java
+ */
+
+export interface BasicAuth {
+  type: "basic";
+  username: string;
+  password: string;
+}
+
+export interface BearerAuth {
+  type: "bearer";
+  token: string;
+}
+
+/**
+ * OAuth2 external authentication
+ * When the server challenges a request, the user is sent to the identity provider through onRedirect while the
+ * client polls the server for the issued token, then retries the request with it
+ */
+export interface OAuth2Auth {
+  type: "oauth2";
+  /**
+   * Called with the URL the user must open to authenticate (e.g., open it in a browser or print it)
+   * Not called when the server issues a token without user interaction
+   */
+  onRedirect: (url: string) => void | Promise<void>;
+  /** Maximum time to wait for the token to be issued, in milliseconds (default: 120000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Token returned by a token provider, with its expiry when known
+ */
+export interface IssuedToken {
+  token: string;
+  /** When the token expires, as a Date or epoch milliseconds */
+  expiresAt?: Date | number;
+}
+
+/**
+ * Bearer authentication with tokens obtained from an async provider
+ * The token is cached until it is about to expire or the server rejects it with 401, in which case the
+ * provider is called again and the request is retried once
+ */
+export interface TokenProviderAuth {
+  type: "token";
+  /** Obtain a fresh token, e.g. from an identity provider or a secret store */
+  getToken: () => Promise<string | IssuedToken>;
+  /** Refresh the token this long before it expires, in milliseconds (default: 30000) */
+  refreshBeforeExpiryMs?: number;
+}
+
+export type AuthConfig = BasicAuth | BearerAuth | OAuth2Auth | TokenProviderAuth;
+
+/**
+ * URIs from the WWW-Authenticate challenge of a server configured for OAuth2
+ */
+export interface OAuth2Challenge {
+  /** URL the user must open to authenticate, if user interaction is required */
+  redirectUri?: string;
+  /** URL to poll for the issued token */
+  tokenUri: string;
+}
+
+export const DEFAULT_OAUTH2_TIMEOUT_MS = 120_000;
+
+export const DEFAULT_REFRESH_BEFORE_EXPIRY_MS = 30_000;
+
+/**
+ * Delay before polling again when the token server is unavailable
+ */
+const TOKEN_POLL_RETRY_DELAY_MS = 1000;
+
+/**
+ * Parse the Bearer challenge of a WWW-Authenticate header
+ * Returns undefined when the header has no OAuth2 token server, e.g. for plain Bearer or Basic challenges
+ * @example parseOAuth2Challenge('Bearer x_redirect_server="https://...", x_token_server="https://..."')
+ */
+export function parseOAuth2Challenge(header: string | null): OAuth2Challenge | undefined {
+  if (!header || !/\bBearer\b/i.test(header)) {
+    return undefined;
+  }
+
+  const params: Record<string, string> = {};
+  for (const match of header.matchAll(/(\w+)\s*=\s*(?:"([^"]*)"|([^\s,]+))/g)) {
+    params[match[1]!.toLowerCase()] = match[2] ?? match[3]!;
+  }
+
+  const tokenUri = params["x_token_server"];
+  if (!tokenUri) {
+    return undefined;
+  }
+  return { redirectUri: params["x_redirect_server"], tokenUri };
+}
+
+/**
+ * Poll the token server until it issues a token
+ * The server holds each request until the token is ready or its own timeout expires, answering with the
+ * token, the URI to poll next, or an error
+ * @param tokenUri - The x_token_server URI of the challenge
+ * @param fetch - Performs the polling requests
+ * @param options - Overall timeout and abort signal
+ * @throws Error if the server reports an error, answers unexpectedly, or the timeout expires
+ */
+export async function pollToken(
+  tokenUri: string,
+  fetch: (url: string, init?: RequestInit) => Promise<Response>,
+  options: { timeoutMs: number; signal?: AbortSignal },
+): Promise<string> {
+  const deadline = Date.now() + options.timeoutMs;
+  let uri = tokenUri;
+
+  while (Date.now() < deadline) {
+    const response = await fetch(uri, { signal: options.signal });
+
+    // The token server is temporarily unavailable, poll again shortly
+    if (response.status === 503) {
+      await response.body?.cancel();
+      await new Promise((resolve) => setTimeout(resolve, TOKEN_POLL_RETRY_DELAY_MS));
+      continue;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Token server responded with ${response.status} ${response.statusText}`);
+    }
+
+    const body = (await response.json()) as { token?: string; nextUri?: string; error?: string };
+    if (body.token) {
+      return body.token;
+    }
+    if (body.error) {
+      throw new Error(`Authentication failed: ${body.error}`);
+    }
+    if (!body.nextUri) {
+      throw new Error("Token server response has neither a token nor a nextUri");
+    }
+    uri = body.nextUri;
+  }
+
+  throw new Error(`Timed out after ${options.timeoutMs}ms waiting for the OAuth2 token`);
+}
+
+/**
+ * Cache for the token of a TokenProviderAuth
+ * Concurrent callers share one provider call, and a rejected token is only refreshed once
+ */
+export class TokenCache {
+  private token?: { value: string; expiresAt?: number };
+  private pending?: Promise<string>;
+
+  constructor(private auth: TokenProviderAuth) {}
+
+  /**
+   * Get a valid token, calling the provider when none is cached, the cached one is about to expire,
+   * or the cached one is the rejected token
+   * @param rejected - Token the server rejected, if any
+   * @throws Rethrows errors of the provider
+   */
+  async get(rejected?: string): Promise<string> {
+    if (this.pending) {
+      return this.pending;
+    }
+
+    const margin = this.auth.refreshBeforeExpiryMs ?? DEFAULT_REFRESH_BEFORE_EXPIRY_MS;
+    const token = this.token;
+    if (
+      token &&
+      token.value !== rejected &&
+      (token.expiresAt === undefined || token.expiresAt - margin > Date.now())
+    ) {
+      return token.value;
+    }
+
+    this.pending = this.refresh().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  private async refresh(): Promise<string> {
+    const issued = await this.auth.getToken();
+    const { token, expiresAt } = typeof issued === "string" ? { token: issued } : issued;
+    this.token = {
+      value: token,
+      expiresAt: expiresAt instanceof Date ? expiresAt.getTime() : expiresAt,
+    };
+    return token;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Tests for the cluster REST API methods
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from "bun:test";
+import { Trino, parseDuration } from "./index.js";
+import type { BasicQueryInfo } from "./protocol.js";
+import { startStubServer } from "./test-server.js";
+
+function basicQuery(queryId: string, state: string, user: string, source?: string) {
+  return {
+    queryId,
+    session: { user, source },
+    state,
+    query: "SELECT 1",
+  } as unknown as BasicQueryInfo;
+}
+
+describe("cluster", () => {
+  const server = startStubServer({
+    handle: ({ path }) => {
+      if (path === "/v1/info") {
+        return Response.json({
+          nodeVersion: { version: "476" },
+          environment: "test",
+          coordinator: true,
+          starting: false,
+          uptime: "1.50m",
+        });
+      }
+      if (path === "/v1/node" || path === "/v1/node/failed") {
+        return Response.json(
+          path === "/v1/node" ? [{ uri: "http://worker:8080", recentFailures: 0 }] : [],
+        );
+      }
+      if (path.split("?")[0] === "/v1/query") {
+        return Response.json([
+          basicQuery("q1", "RUNNING", "alice", "etl"),
+          basicQuery("q2", "QUEUED", "bob"),
+          basicQuery("q3", "FINISHED", "alice"),
+        ]);
+      }
+      if (path === "/v1/query/q1") {
+        return Response.json({ ...basicQuery("q1", "RUNNING", "alice"), fieldNames: [] });
+      }
+      if (path === "/v1/query/q1/killed") {
+        return new Response(null, { status: 202 });
+      }
+      if (path === "/v1/query/q3/killed") {
+        return new Response("Query already finished", { status: 409 });
+      }
+      return new Response("Not found", { status: 404 });
+    },
+  });
+
+  const client = new Trino({ baseUrl: server.url, headers: { "x-trino-user": "admin" } });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  test("should get server info with the configured headers", async () => {
+    const info = await client.getServerInfo();
+    expect(info).toEqual({
+      ok: true,
+      value: expect.objectContaining({ nodeVersion: { version: "476" }, starting: false }),
+    });
+    expect(info.ok && parseDuration(info.value.uptime!)).toBe(90_000);
+    expect(server.requests[0]).toMatchObject({ method: "GET", path: "/v1/info" });
+    expect(server.requests[0]!.headers.get("x-trino-user")).toBe("admin");
+  });
+
+  test("should list active and failed nodes", async () => {
+    const nodes = await client.listNodes();
+    expect(nodes.ok && nodes.value.map((node) => node.uri)).toEqual(["http://worker:8080"]);
+    expect(await client.listNodes({ failed: true })).toEqual({ ok: true, value: [] });
+    expect(server.requests.map((request) => request.path)).toEqual(["/v1/node", "/v1/node/failed"]);
+  });
+
+  test("should list queries filtered by state, user and source", async () => {
+    const ids = async (options?: Parameters<Trino["listQueries"]>[0]) => {
+      const queries = await client.listQueries(options);
+      return queries.ok ? queries.value.map((query) => query.queryId) : queries.error;
+    };
+
+    expect(await ids()).toEqual(["q1", "q2", "q3"]);
+    expect(await ids({ state: "RUNNING" })).toEqual(["q1"]);
+    expect(server.requests.at(-1)!.path).toBe("/v1/query?state=RUNNING");
+    expect(await ids({ state: ["QUEUED", "RUNNING"] })).toEqual(["q1", "q2"]);
+    expect(server.requests.at(-1)!.path).toBe("/v1/query");
+    expect(await ids({ user: "alice" })).toEqual(["q1", "q3"]);
+    expect(await ids({ user: "alice", source: "etl" })).toEqual(["q1"]);
+  });
+
+  test("should get query info and report unknown queries as HttpError", async () => {
+    const info = await client.getQueryInfo("q1");
+    expect(info.ok && info.value.queryId).toBe("q1");
+
+    const missing = await client.getQueryInfo("missing");
+    expect(missing.ok).toBe(false);
+    expect(!missing.ok && missing.error).toMatchObject({
+      _tag: "HttpError",
+      response: { status: 404 },
+    });
+  });
+
+  test("should kill queries with a message", async () => {
+    expect(await client.killQuery("q1", "Runs too long")).toEqual({ ok: true, value: undefined });
+    expect(server.requests[0]).toMatchObject({
+      method: "PUT",
+      path: "/v1/query/q1/killed",
+      body: "Runs too long",
+    });
+
+    const finished = await client.killQuery("q3");
+    expect(!finished.ok && finished.error).toMatchObject({
+      _tag: "HttpError",
+      response: { status: 409 },
+    });
+  });
+
+  test("should abort requests", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const info = await client.getServerInfo({ signal: controller.signal });
+    expect(!info.ok && info.error._tag).toBe("AbortError");
+  });
+});
+
+describe("parseDuration", () => {
+  test("should convert Trino durations to milliseconds", () => {
+    expect(parseDuration("12.50ms")).toBe(12.5);
+    expect(parseDuration("1.50s")).toBe(1500);
+    expect(parseDuration("2.00h")).toBe(7_200_000);
+    expect(parseDuration("250.00us")).toBe(0.25);
+    expect(parseDuration("fast")).toBeUndefined();
+    expect(parseDuration("3 weeks")).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Options and helpers for the cluster REST API methods of Trino (getServerInfo, listQueries, killQuery, ...)
+ * These endpoints of the coordinator report on the cluster rather than run statements
+ *
+ * @see https://trino.io/docs/current/develop/client-protocol.html
+ */
+
+import type { BasicQueryInfo, ClientRequestHeaders, QueryState } from "./protocol.js";
+import type { AbortError, AuthenticationError, FetchError, HttpError, TlsError } from "./types.js";
+
+/**
+ * Errors of the cluster REST API methods
+ */
+export type ClusterError = FetchError | HttpError | AbortError | AuthenticationError | TlsError;
+
+export interface ClusterRequestOptions {
+  /** Additional headers to include in the request */
+  headers?: ClientRequestHeaders;
+  /** Signal to abort the request, which yields an AbortError */
+  signal?: AbortSignal;
+}
+
+export interface ListQueriesOptions extends ClusterRequestOptions {
+  /** Only list queries in these states (e.g., ["QUEUED", "RUNNING"]) */
+  state?: QueryState | QueryState[];
+  /** Only list queries of this user */
+  user?: string;
+  /** Only list queries of this source (x-trino-source) */
+  source?: string;
+}
+
+/**
+ * Whether a query matches the filters of listQueries
+ */
+export function matchesQueryFilter(query: BasicQueryInfo, options: ListQueriesOptions): boolean {
+  const states = options.state === undefined ? undefined : [options.state].flat();
+  return (
+    (states === undefined || states.includes(query.state)) &&
+    (options.user === undefined || query.session.user === options.user) &&
+    (options.source === undefined || query.session.source === options.source)
+  );
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ns: 1e-6,
+  us: 1e-3,
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parse a duration in Trino's format (e.g., "1.50s", "12.34ms", "3.00h") into milliseconds
+ * @returns The duration in milliseconds, or undefined if the value is not a duration
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]+)\s*$/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const unit = DURATION_UNITS[match[2]!];
+  return unit === undefined ? undefined : Number(match[1]) * unit;
+}
@@ -0,0 +1,256 @@
+/**
+ * Unit tests for type-aware value decoding
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from "bun:test";
+import { decodeRow, decodeValue, parseLosslessJson, type DecodeOptions } from "./decode.js";
+import { Trino } from "./index.js";
+import { ParameterKind, type ClientTypeSignature, type Column } from "./protocol.js";
+import { startStubServer } from "./test-server.js";
+
+function type(
+  rawType: ClientTypeSignature["rawType"],
+  ...args: ClientTypeSignature["arguments"]
+): ClientTypeSignature {
+  return { rawType, arguments: args };
+}
+
+function typeArg(signature: ClientTypeSignature) {
+  return { kind: ParameterKind.TYPE, value: signature } as const;
+}
+
+function longArg(value: number) {
+  return { kind: ParameterKind.LONG, value } as const;
+}
+
+function fieldArg(name: string | undefined, signature: ClientTypeSignature) {
+  return {
+    kind: ParameterKind.NAMED_TYPE,
+    value: { fieldName: name === undefined ? null : { name }, typeSignature: signature },
+  } as const;
+}
+
+describe("decodeValue", () => {
+  test("should decode numeric types", () => {
+    expect(decodeValue(42, type("bigint"))).toBe(42n);
+    expect(decodeValue("9007199254740993", type("bigint"))).toBe(9007199254740993n);
+    expect(decodeValue(7, type("integer"))).toBe(7);
+    expect(decodeValue("NaN", type("double"))).toBeNaN();
+    expect(decodeValue("-Infinity", type("real"))).toBe(-Infinity);
+    expect(decodeValue("123.45", type("decimal", longArg(10), longArg(2)))).toEqual({
+      _tag: "Decimal",
+      value: "123.45",
+      precision: 10,
+      scale: 2,
+    });
+  });
+
+  test("should decode dates and timestamps", () => {
+    expect(decodeValue("2024-01-02", type("date"))).toEqual(new Date("2024-01-02T00:00:00Z"));
+    expect(decodeValue("2024-01-02 03:04:05.678", type("timestamp", longArg(3)))).toEqual(
+      new Date("2024-01-02T03:04:05.678Z"),
+    );
+    expect(decodeValue("0001-01-01 00:00:00", type("timestamp", longArg(0)))).toEqual(
+      new Date("0001-01-01T00:00:00Z"),
+    );
+  });
+
+  test("should decode timestamps with time zone", () => {
+    const signature = type("timestamp with time zone", longArg(6));
+    expect(decodeValue("2024-01-02 03:04:05.678901 UTC", signature)).toEqual(
+      new Date("2024-01-02T03:04:05.678Z"),
+    );
+    expect(decodeValue("2024-01-02 03:04:05.000 +05:30", signature)).toEqual(
+      new Date("2024-01-01T21:34:05Z"),
+    );
+    expect(decodeValue("2024-07-01 12:00:00.000 America/New_York", signature)).toEqual(
+      new Date("2024-07-01T16:00:00Z"),
+    );
+    expect(decodeValue("2024-01-01 12:00:00.000 America/New_York", signature)).toEqual(
+      new Date("2024-01-01T17:00:00Z"),
+    );
+  });
+
+  test("should decode intervals", () => {
+    expect(decodeValue("1 02:03:04.500", type("interval day to second"))).toBe(93_784_500);
+    expect(decodeValue("-0 00:00:01.000", type("interval day to second"))).toBe(-1000);
+    expect(decodeValue("2-3", type("interval year to month"))).toBe(27);
+    expect(decodeValue("-1-0", type("interval year to month"))).toBe(-12);
+  });
+
+  test("should decode varbinary and json", () => {
+    expect(decodeValue("AQID", type("varbinary"))).toEqual(new Uint8Array([1, 2, 3]));
+    // Owns its bytes instead of viewing the shared Buffer pool
+    expect((decodeValue("AQID", type("varbinary")) as Uint8Array).buffer.byteLength).toBe(3);
+    expect(decodeValue('{"a":[1,2]}', type("json"))).toEqual({ a: [1, 2] });
+  });
+
+  test("should pass through values without a dedicated decoder", () => {
+    const uuid = "12151fd2-7586-11e9-8f9e-2a86e4085a59";
+    expect(decodeValue(uuid, type("uuid"))).toBe(uuid);
+    expect(decodeValue("text", type("varchar", longArg(10)))).toBe("text");
+    expect(decodeValue("12:34:56.000", type("time", longArg(3)))).toBe("12:34:56.000");
+  });
+
+  test("should decode nested array, map and row values", () => {
+    const signature = type(
+      "row",
+      fieldArg("ids", type("array", typeArg(type("bigint")))),
+      fieldArg("scores", type("map", typeArg(type("integer")), typeArg(type("double")))),
+      fieldArg(undefined, type("varbinary")),
+    );
+
+    expect(decodeValue([[1, 2], { "1": 0.5, "2": "NaN" }, "AA=="], signature)).toEqual({
+      ids: [1n, 2n],
+      scores: new Map([
+        [1, 0.5],
+        [2, NaN],
+      ]),
+      field2: new Uint8Array([0]),
+    });
+  });
+
+  test("should decode nulls as null at every level", () => {
+    const signature = type("array", typeArg(type("bigint")));
+    expect(decodeValue(null, signature)).toBeNull();
+    expect(decodeValue([1, null], signature)).toEqual([1n, null]);
+  });
+
+  test("should apply overrides and allow delegating to nested decoding", () => {
+    const signature = type("array", typeArg(type("decimal", longArg(5), longArg(2))));
+    const decoded = decodeValue(["1.50", "2.25"], signature, {
+      overrides: {
+        decimal: (value) => Number(value),
+        array: (value, sig, decode) =>
+          new Set(
+            (value as unknown[]).map((element) =>
+              decode(element, (sig.arguments[0] as ReturnType<typeof typeArg>).value),
+            ),
+          ),
+      },
+    });
+
+    expect(decoded).toEqual(new Set([1.5, 2.25]));
+  });
+});
+
+describe("decodeRow", () => {
+  test("should decode each cell by its column and leave untyped columns unchanged", () => {
+    const columns: Column[] = [
+      { name: "id", type: "bigint", typeSignature: type("bigint") },
+      { name: "raw", type: "unknown" },
+    ];
+
+    expect(decodeRow([1, "x"], columns)).toEqual([1n, "x"]);
+  });
+});
+
+describe("parseLosslessJson", () => {
+  test("should keep integers beyond Number.MAX_SAFE_INTEGER exact", () => {
+    expect(
+      parseLosslessJson(
+        '{"data":[[9007199254740993,-9223372036854775808,9007199254740991,1.2345678901234567,"9007199254740993"]]}',
+      ),
+    ).toEqual({
+      data: [
+        [
+          9007199254740993n,
+          -9223372036854775808n,
+          9007199254740991,
+          1.2345678901234567,
+          "9007199254740993",
+        ],
+      ],
+    });
+  });
+
+  test("should not mistake escaped strings for integers", () => {
+    expect(
+      parseLosslessJson('["\\"9007199254740993", "\\u00019007199254740993", 9007199254740993]'),
+    ).toEqual(['"9007199254740993', "\u00019007199254740993", 9007199254740993n]);
+  });
+
+  test("should pick a mark that the strings of the text do not contain", () => {
+    const escapes = Array.from(
+      { length: 31 },
+      (_, index) => `\\u${(index + 1).toString(16).padStart(4, "0")}`,
+    ).filter((escape) => !["\\u0008", "\\u0009", "\\u000a", "\\u000c", "\\u000d"].includes(escape));
+    const strings = escapes.slice(0, -1).map((escape) => `"${escape}9007199254740993"`);
+    const parsed = parseLosslessJson(
+      `[${strings.join(",")}, 9007199254740993, 12345678901234567890]`,
+    );
+    expect(parsed).toEqual([
+      ...escapes.slice(0, -1).map((escape) => `${JSON.parse(`"${escape}"`)}9007199254740993`),
+      9007199254740993n,
+      12345678901234567890n,
+    ]);
+
+    const every = escapes.map((escape) => `"${escape.toUpperCase().replace("U", "u")}"`).join(",");
+    expect(() => parseLosslessJson(`[${every}, 9007199254740993]`)).toThrow(/losslessly/);
+  });
+});
+
+describe("Decoding query results", () => {
+  const server = startStubServer({
+    pages: [
+      {
+        columns: [
+          { name: "doc", type: "json", typeSignature: type("json") },
+          { name: "n", type: "bigint", typeSignature: type("bigint") },
+        ],
+        data: [['{"a":1}', 1]],
+      },
+      { data: [["{bad", 2]] },
+      { data: [["{}", 3]] },
+    ],
+  });
+  const requests = () => server.requests.map((request) => request.method);
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  async function collect(decode: DecodeOptions) {
+    const results = [];
+    for await (const result of new Trino({ baseUrl: server.url }).executeQuery("SELECT 1", {
+      decode,
+    })) {
+      results.push(result);
+    }
+    return results;
+  }
+
+  test("should yield DecodeError for malformed values and cancel the query", async () => {
+    const results = await collect({});
+    expect(results.map((result) => result.ok)).toEqual([true, false]);
+    expect(!results[1]!.ok && results[1]!.error).toMatchObject({
+      _tag: "DecodeError",
+      error: expect.any(SyntaxError),
+    });
+    expect(requests()).toEqual(["POST", "GET", "DELETE"]);
+  });
+
+  test("should yield DecodeError when an override throws", async () => {
+    const results = await collect({
+      overrides: {
+        bigint: () => {
+          throw new RangeError("Unsupported bigint");
+        },
+      },
+    });
+    expect(results).toEqual([
+      {
+        ok: false,
+        error: {
+          _tag: "DecodeError",
+          error: expect.any(RangeError),
+          message: "Unsupported bigint",
+        },
+      },
+    ]);
+  });
+});
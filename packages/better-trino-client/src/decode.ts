@@ -0,0 +1,412 @@
+/**
+ * Type-aware decoding of Trino result values
+ * Converts the JSON representation of each cell into a well-defined JS value based on Column.typeSignature
+ *
+ * @see https://trino.io/docs/current/develop/client-protocol.html
+ */
+
+import {
+  ClientStandardTypes,
+  type ClientStandardType,
+  type ClientTypeSignature,
+  type Column,
+} from "./protocol.js";
+import { longArgument, rowFields, typeArgument } from "./signature.js";
+
+/**
+ * Exact decimal value
+ * Trino sends decimals as strings to avoid losing precision, so the value is kept as its string form
+ */
+export interface TrinoDecimal {
+  readonly _tag: "Decimal";
+  /** Decimal value as sent by Trino (e.g., "123.45") */
+  readonly value: string;
+  /** Declared precision of the column type, when known */
+  readonly precision?: number;
+  /** Declared scale of the column type, when known */
+  readonly scale?: number;
+}
+
+/**
+ * Decodes a single value of a given type
+ * `decode` decodes nested values with the same options, so overrides can delegate back to the built-in decoders
+ */
+export type TypeDecoder = (
+  value: unknown,
+  signature: ClientTypeSignature,
+  decode: (value: unknown, signature: ClientTypeSignature) => unknown,
+) => unknown;
+
+export interface DecodeOptions {
+  /** Custom decoders keyed by raw type, used instead of the built-in decoder for that type */
+  overrides?: Partial<Record<ClientStandardType, TypeDecoder>>;
+}
+
+/**
+ * Decode a single value according to its type signature
+ *
+ * Built-in mapping:
+ * - bigint → BigInt
+ * - decimal → TrinoDecimal
+ * - real, double → number (including NaN and ±Infinity)
+ * - date, timestamp → Date (interpreted as UTC)
+ * - timestamp with time zone → Date
+ * - interval day to second → number of milliseconds
+ * - interval year to month → number of months
+ * - varbinary → Uint8Array
+ * - json → parsed JSON value
+ * - array → Array, map → Map, row → object keyed by field name (`field0`, `field1`, ... for anonymous fields)
+ * - everything else (varchar, char, time, uuid, ipaddress, sketches, ...) is returned unchanged
+ *
+ * Null values are always returned as null.
+ */
+export function decodeValue(
+  value: unknown,
+  signature: ClientTypeSignature,
+  options?: DecodeOptions,
+): unknown {
+  const decode = (inner: unknown, innerSignature: ClientTypeSignature): unknown => {
+    if (inner === null || inner === undefined) {
+      return null;
+    }
+
+    const override = options?.overrides?.[innerSignature.rawType];
+    if (override) {
+      return override(inner, innerSignature, decode);
+    }
+
+    return decodeStandard(inner, innerSignature, decode);
+  };
+
+  return decode(value, signature);
+}
+
+/**
+ * Create a decoder for rows of the given columns
+ * Columns without a typeSignature are passed through unchanged
+ */
+export function createRowDecoder(
+  columns: Column[],
+  options?: DecodeOptions,
+): (row: unknown[]) => unknown[] {
+  return (row) =>
+    row.map((value, index) => {
+      const signature = columns[index]?.typeSignature;
+      return signature ? decodeValue(value, signature, options) : value;
+    });
+}
+
+/**
+ * Decode all values of a row according to the column type signatures
+ */
+export function decodeRow(row: unknown[], columns: Column[], options?: DecodeOptions): unknown[] {
+  return createRowDecoder(columns, options)(row);
+}
+
+/**
+ * Built-in decoders for the standard Trino types
+ */
+function decodeStandard(
+  value: unknown,
+  signature: ClientTypeSignature,
+  decode: (value: unknown, signature: ClientTypeSignature) => unknown,
+): unknown {
+  switch (signature.rawType) {
+    case ClientStandardTypes.BIGINT:
+      return decodeBigint(value);
+    case ClientStandardTypes.REAL:
+    case ClientStandardTypes.DOUBLE:
+      return typeof value === "string" ? Number(value) : value;
+    case ClientStandardTypes.DECIMAL:
+      return decodeDecimal(value, signature);
+    case ClientStandardTypes.DATE:
+      return typeof value === "string" ? parseDate(value) : value;
+    case ClientStandardTypes.TIMESTAMP:
+      return typeof value === "string" ? parseTimestamp(value) : value;
+    case ClientStandardTypes.TIMESTAMP_WITH_TIME_ZONE:
+      return typeof value === "string" ? parseTimestampWithTimeZone(value) : value;
+    case ClientStandardTypes.INTERVAL_DAY_TO_SECOND:
+      return typeof value === "string" ? parseIntervalDayToSecond(value) : value;
+    case ClientStandardTypes.INTERVAL_YEAR_TO_MONTH:
+      return typeof value === "string" ? parseIntervalYearToMonth(value) : value;
+    case ClientStandardTypes.VARBINARY:
+      return typeof value === "string" ? decodeBase64(value) : value;
+    case ClientStandardTypes.JSON:
+      return typeof value === "string" ? JSON.parse(value) : value;
+    case ClientStandardTypes.ARRAY: {
+      const elementType = typeArgument(signature, 0);
+      if (!Array.isArray(value) || !elementType) {
+        return value;
+      }
+      return value.map((element) => decode(element, elementType));
+    }
+    case ClientStandardTypes.MAP: {
+      const keyType = typeArgument(signature, 0);
+      const valueType = typeArgument(signature, 1);
+      if (typeof value !== "object" || value === null || !keyType || !valueType) {
+        return value;
+      }
+      const map = new Map<unknown, unknown>();
+      for (const [key, entry] of Object.entries(value)) {
+        map.set(decodeMapKey(key, keyType, decode), decode(entry, valueType));
+      }
+      return map;
+    }
+    case ClientStandardTypes.ROW: {
+      if (!Array.isArray(value)) {
+        return value;
+      }
+      const row: Record<string, unknown> = {};
+      rowFields(signature).forEach((field, index) => {
+        if (field.type) {
+          row[field.name] = decode(value[index], field.type);
+        }
+      });
+      return row;
+    }
+    default:
+      return value;
+  }
+}
+
+function decodeBigint(value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return value;
+  }
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === "string" && /^-?\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  return value;
+}
+
+function decodeDecimal(value: unknown, signature: ClientTypeSignature): TrinoDecimal {
+  return {
+    _tag: "Decimal",
+    value: String(value),
+    precision: longArgument(signature, 0),
+    scale: longArgument(signature, 1),
+  };
+}
+
+/**
+ * Map keys arrive as JSON object keys, so non-string key types must be parsed from their string form
+ */
+function decodeMapKey(
+  key: string,
+  signature: ClientTypeSignature,
+  decode: (value: unknown, signature: ClientTypeSignature) => unknown,
+): unknown {
+  switch (signature.rawType) {
+    case ClientStandardTypes.TINYINT:
+    case ClientStandardTypes.SMALLINT:
+    case ClientStandardTypes.INTEGER:
+    case ClientStandardTypes.REAL:
+    case ClientStandardTypes.DOUBLE:
+      return Number(key);
+    case ClientStandardTypes.BOOLEAN:
+      return key === "true";
+    default:
+      return decode(key, signature);
+  }
+}
+
+const DATE_PATTERN = /^(-?\d+)-(\d{2})-(\d{2})$/;
+const TIMESTAMP_PATTERN = /^(-?\d+)-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?$/;
+const TIMESTAMP_WITH_TIME_ZONE_PATTERN =
+  /^(-?\d+)-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(?:\.(\d+))? (.+)$/;
+const OFFSET_PATTERN = /^([+-])(\d{2}):(\d{2})$/;
+const INTERVAL_DAY_TO_SECOND_PATTERN = /^(-)?(\d+) (\d+):(\d+):(\d+)(?:\.(\d+))?$/;
+const INTERVAL_YEAR_TO_MONTH_PATTERN = /^(-)?(\d+)-(\d+)$/;
+
+function parseDate(value: string): Date | string {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) {
+    return value;
+  }
+  const [, year, month, day] = match;
+  return new Date(utcMillis(Number(year), Number(month), Number(day), 0, 0, 0, 0));
+}
+
+function parseTimestamp(value: string): Date | string {
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (!match) {
+    return value;
+  }
+  return new Date(wallClockMillis(match));
+}
+
+function parseTimestampWithTimeZone(value: string): Date | string {
+  const match = TIMESTAMP_WITH_TIME_ZONE_PATTERN.exec(value);
+  if (!match) {
+    return value;
+  }
+
+  const wallClock = wallClockMillis(match);
+  const zone = match[8]!;
+
+  if (zone === "UTC" || zone === "Z" || zone === "GMT") {
+    return new Date(wallClock);
+  }
+
+  const offset = OFFSET_PATTERN.exec(zone);
+  if (offset) {
+    const sign = offset[1] === "-" ? -1 : 1;
+    const offsetMillis = sign * (Number(offset[2]) * 60 + Number(offset[3])) * 60_000;
+    return new Date(wallClock - offsetMillis);
+  }
+
+  try {
+    // Resolve the offset of the named zone at that instant, correcting once for DST transitions
+    const guess = wallClock - zoneOffsetMillis(wallClock, zone);
+    return new Date(wallClock - zoneOffsetMillis(guess, zone));
+  } catch {
+    return value;
+  }
+}
+
+function parseIntervalDayToSecond(value: string): number | string {
+  const match = INTERVAL_DAY_TO_SECOND_PATTERN.exec(value);
+  if (!match) {
+    return value;
+  }
+  const [, sign, days, hours, minutes, seconds, fraction] = match;
+  const millis =
+    ((Number(days) * 24 + Number(hours)) * 60 + Number(minutes)) * 60_000 +
+    Number(seconds) * 1000 +
+    fractionMillis(fraction);
+  return sign ? -millis : millis;
+}
+
+function parseIntervalYearToMonth(value: string): number | string {
+  const match = INTERVAL_YEAR_TO_MONTH_PATTERN.exec(value);
+  if (!match) {
+    return value;
+  }
+  const [, sign, years, months] = match;
+  const total = Number(years) * 12 + Number(months);
+  return sign ? -total : total;
+}
+
+/**
+ * Milliseconds since epoch of a timestamp match, treating the wall clock time as UTC
+ */
+function wallClockMillis(match: RegExpExecArray): number {
+  const [, year, month, day, hour, minute, second, fraction] = match;
+  return utcMillis(
+    Number(year),
+    Number(month),
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+    fractionMillis(fraction),
+  );
+}
+
+/**
+ * Like Date.UTC, but without mapping years 0-99 to 1900-1999
+ */
+function utcMillis(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  millis: number,
+): number {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hour, minute, second, millis);
+  return date.getTime();
+}
+
+/**
+ * Milliseconds of a fractional seconds string of any precision (e.g., "123456789" → 123)
+ */
+function fractionMillis(fraction: string | undefined): number {
+  return fraction ? Number(fraction.slice(0, 3).padEnd(3, "0")) : 0;
+}
+
+/**
+ * Offset of a named time zone from UTC at the given instant, in milliseconds
+ */
+function zoneOffsetMillis(epochMillis: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    era: "short",
+  }).formatToParts(new Date(epochMillis));
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  const era = parts.find((p) => p.type === "era")?.value;
+  const year = era === "BC" ? 1 - part("year") : part("year");
+  const wallClock = utcMillis(
+    year,
+    part("month"),
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+    0,
+  );
+
+  // Compare at second precision since the formatted parts do not include milliseconds
+  return wallClock - (epochMillis - (((epochMillis % 1000) + 1000) % 1000));
+}
+
+function decodeBase64(value: string): Uint8Array {
+  // Copy, since small Buffers are views into a shared pool
+  return new Uint8Array(Buffer.from(value, "base64"));
+}
+
+/**
+ * Escapes of the control characters that can mark integer literals quoted by parseLosslessJson
+ * JSON strings only hold control characters through such escapes, except the ones with a short escape (\n, ...)
+ */
+const UNSAFE_INTEGER_MARKS = Array.from({ length: 31 }, (_, index) => index + 1)
+  .filter((code) => ![0x08, 0x09, 0x0a, 0x0c, 0x0d].includes(code))
+  .map((code) => `\\u${code.toString(16).padStart(4, "0")}`);
+
+/**
+ * Parse JSON text, keeping integers beyond Number.MAX_SAFE_INTEGER exact as BigInt
+ * Such literals are quoted with a mark before parsing, so this does not depend on revivers receiving the
+ * source text
+ * @throws SyntaxError if the text is not valid JSON, or Error if the text escapes every possible mark
+ */
+export function parseLosslessJson(text: string): unknown {
+  // Only integers of 16 digits or more can be unsafe
+  if (!/\d{16}/.test(text)) {
+    return JSON.parse(text);
+  }
+
+  // A mark that no string of the text contains, so that only quoted literals start with it
+  const escape = UNSAFE_INTEGER_MARKS.find(
+    (candidate) =>
+      !text.includes(candidate) && !text.includes(candidate.toUpperCase().replace("U", "u")),
+  );
+  if (!escape) {
+    throw new Error("Cannot parse integers beyond Number.MAX_SAFE_INTEGER losslessly");
+  }
+  const mark = String.fromCharCode(Number.parseInt(escape.slice(2), 16));
+
+  const quoted = text.replace(/"(?:[^"\\]|\\.)*"|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/g, (token) =>
+    /^-?\d{16,}$/.test(token) && !Number.isSafeInteger(Number(token))
+      ? `"${escape}${token}"`
+      : token,
+  );
+  return JSON.parse(quoted, (_key, value: unknown) =>
+    typeof value === "string" && value.startsWith(mark) ? BigInt(value.slice(1)) : value,
+  );
+}
@@ -0,0 +1,327 @@
+/**
+ * Tests for EXPLAIN plan parsing and Trino.explain
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from "bun:test";
+import { Trino, sql } from "./index.js";
+import {
+  findCrossJoins,
+  findFullTableScans,
+  findTableScans,
+  parseDistributedPlan,
+  parseIoPlan,
+  parseLogicalPlan,
+  parseTextPlan,
+  walkPlan,
+  type PlanNode,
+} from "./explain.js";
+import { startStubServer } from "./test-server.js";
+
+function scan(id: string, table: string, symbol: string, filterPredicate?: string) {
+  return {
+    id,
+    name: filterPredicate ? "ScanFilter" : "TableScan",
+    descriptor: filterPredicate ? { table, filterPredicate } : { table },
+    outputs: [{ symbol, type: "bigint" }],
+    details: [`${symbol} := tpch:${symbol}`],
+    estimates: [
+      {
+        outputRowCount: 25.0,
+        outputSizeInBytes: 225.0,
+        cpuCost: 225.0,
+        memoryCost: 0.0,
+        networkCost: 0.0,
+      },
+    ],
+    children: [],
+  };
+}
+
+const LOGICAL_PLAN = JSON.stringify({
+  id: "6",
+  name: "Output",
+  descriptor: { columnNames: "[nationkey, regionkey]" },
+  outputs: [
+    { symbol: "nationkey", type: "bigint" },
+    { symbol: "regionkey", type: "bigint" },
+  ],
+  details: [],
+  estimates: [
+    {
+      outputRowCount: "NaN",
+      outputSizeInBytes: "NaN",
+      cpuCost: "NaN",
+      memoryCost: 0.0,
+      networkCost: "NaN",
+    },
+  ],
+  children: [
+    {
+      id: "4",
+      name: "CrossJoin",
+      descriptor: { distribution: "REPLICATED" },
+      outputs: [],
+      details: [],
+      estimates: [],
+      children: [
+        scan("0", "tpch:tiny:nation", "nationkey"),
+        scan("1", "tpch:tiny:region", "regionkey", "(regionkey = BIGINT '1')"),
+      ],
+    },
+  ],
+});
+
+const TEXT_PLAN = `Trino version: 476
+Queued: 1.05ms, Analysis: 12.34ms, Planning: 45.67ms, Execution: 123.45ms
+Fragment 1 [SINGLE]
+    CPU: 2.64ms, Scheduled: 3.43ms, Blocked 0.00ns (Input: 0.00ns, Output: 0.00ns), Input: 25 rows (225B); per task: avg.: 25.00 std.dev.: 0.00, Output: 25 rows (225B)
+    Output layout: [name, regionkey]
+    Output partitioning: SINGLE []
+    Output[columnNames = [name, regionkey]]
+    │   Layout: [name:varchar(25), regionkey:bigint]
+    │   Estimates: {rows: 25 (2.20kB), cpu: 0, memory: 0B, network: 0B}
+    │   CPU: 0.00ns (0.00%), Scheduled: 0.00ns (0.00%), Blocked: 0.00ns (0.00%), Output: 25 rows (225B)
+    └─ InnerJoin[criteria = ("regionkey" = "regionkey_0"), distribution = REPLICATED]
+       │   Layout: [name:varchar(25), regionkey:bigint]
+       │   Estimates: {rows: ? (?), cpu: ?, memory: 1.5MB, network: 0B}
+       ├─ RemoteSource[sourceFragmentIds = [2]]
+       │      Layout: [name:varchar(25), regionkey:bigint]
+       └─ LocalExchange[partitioning = SINGLE]
+          └─ ScanFilter[table = tpch:tiny:region, filterPredicate = (regionkey IN (BIGINT '1', BIGINT '2'))]
+                 Layout: [regionkey_0:bigint]
+                 CPU: 1.00ms (100.00%), Scheduled: 1.20ms (100.00%), Blocked: 0.00ns (0.00%), Output: 2 rows (18B)
+                 regionkey_0 := tpch:regionkey
+
+Fragment 2 [SOURCE]
+    Output layout: [name, regionkey]
+    Output partitioning: BROADCAST []
+    TableScan[table = tpch:tiny:nation]
+        Layout: [name:varchar(25), regionkey:bigint]
+        name := tpch:name
+        regionkey := tpch:regionkey
+`;
+
+describe("explain plans", () => {
+  test("should parse JSON plans with unknown estimates as NaN", () => {
+    const plan = parseLogicalPlan(LOGICAL_PLAN);
+    expect(plan.root).toMatchObject({ id: "6", name: "Output" });
+    expect(plan.root.estimates[0]).toEqual({
+      outputRowCount: NaN,
+      outputSizeInBytes: NaN,
+      cpuCost: NaN,
+      memoryCost: 0,
+      networkCost: NaN,
+    });
+    expect([...walkPlan(plan)].map((node) => node.id)).toEqual(["6", "4", "0", "1"]);
+  });
+
+  test("should parse distributed JSON plans into fragments", () => {
+    const plan = parseDistributedPlan(
+      JSON.stringify({ "0": JSON.parse(LOGICAL_PLAN), "1": scan("7", "tpch:tiny:orders", "x") }),
+    );
+    expect(plan.fragments.map((fragment) => [fragment.id, fragment.root.name])).toEqual([
+      ["0", "Output"],
+      ["1", "TableScan"],
+    ]);
+    expect(findTableScans(plan).map((found) => found.table)).toEqual([
+      "tiny:nation",
+      "tiny:region",
+      "tiny:orders",
+    ]);
+  });
+
+  test("should find scans with their columns, full table scans and cross joins", () => {
+    const plan = parseLogicalPlan(LOGICAL_PLAN);
+    expect(findTableScans(plan).map(({ node: _, ...found }) => found)).toEqual([
+      {
+        catalog: "tpch",
+        table: "tiny:nation",
+        filterPredicate: undefined,
+        columns: [{ symbol: "nationkey", type: "bigint", column: "tpch:nationkey" }],
+      },
+      {
+        catalog: "tpch",
+        table: "tiny:region",
+        filterPredicate: "(regionkey = BIGINT '1')",
+        columns: [{ symbol: "regionkey", type: "bigint", column: "tpch:regionkey" }],
+      },
+    ]);
+    expect(findFullTableScans(plan).map((found) => found.node.id)).toEqual(["0"]);
+    expect(findCrossJoins(plan).map((node) => node.id)).toEqual(["4"]);
+  });
+
+  test("should parse IO plans", () => {
+    const plan = parseIoPlan(
+      JSON.stringify({
+        inputTableColumnInfos: [
+          {
+            table: { catalog: "tpch", schemaTable: { schema: "tiny", table: "nation" } },
+            constraint: {
+              none: false,
+              columnConstraints: [
+                {
+                  columnName: "regionkey",
+                  type: "bigint",
+                  domain: {
+                    nullsAllowed: false,
+                    ranges: [
+                      {
+                        low: { value: "1", bound: "EXACTLY" },
+                        high: { value: "1", bound: "EXACTLY" },
+                      },
+                    ],
+                  },
+                },
+              ],
+            },
+            estimate: {
+              outputRowCount: 5.0,
+              outputSizeInBytes: 45.0,
+              cpuCost: 45.0,
+              maxMemory: 0.0,
+              networkCost: 0.0,
+            },
+          },
+        ],
+        estimate: { outputRowCount: 5.0, outputSizeInBytes: "NaN", cpuCost: 45.0, maxMemory: 0.0 },
+      }),
+    );
+    expect(plan.inputs[0]).toMatchObject({
+      table: { catalog: "tpch", schema: "tiny", table: "nation" },
+      none: false,
+      columnConstraints: [{ columnName: "regionkey" }],
+    });
+    expect(plan.output).toBeUndefined();
+    expect(plan.estimate).toEqual({
+      outputRowCount: 5,
+      outputSizeInBytes: NaN,
+      cpuCost: 45,
+      maxMemory: 0,
+      networkCost: NaN,
+    });
+  });
+
+  test("should parse the tree of text plans", () => {
+    const plan = parseTextPlan(TEXT_PLAN);
+    expect(plan.fragments.map(({ id, partitioning }) => [id, partitioning])).toEqual([
+      ["1", "SINGLE"],
+      ["2", "SOURCE"],
+    ]);
+
+    const [single, source] = plan.fragments;
+    expect(single!.details[0]).toStartWith("CPU: 2.64ms");
+    const shape = (node: PlanNode): unknown => [node.name, ...node.children.map(shape)];
+    expect(shape(single!.root)).toEqual([
+      "Output",
+      ["InnerJoin", ["RemoteSource"], ["LocalExchange", ["ScanFilter"]]],
+    ]);
+    expect(shape(source!.root)).toEqual(["TableScan"]);
+
+    const join = single!.root.children[0]!;
+    expect(join.descriptor).toEqual({
+      criteria: '("regionkey" = "regionkey_0")',
+      distribution: "REPLICATED",
+    });
+    expect(join.estimates[0]).toEqual({
+      outputRowCount: NaN,
+      outputSizeInBytes: NaN,
+      cpuCost: NaN,
+      memoryCost: 1.5 * 1024 ** 2,
+      networkCost: 0,
+    });
+    expect(single!.root.outputs).toEqual([
+      { symbol: "name", type: "varchar(25)" },
+      { symbol: "regionkey", type: "bigint" },
+    ]);
+    expect(single!.root.estimates[0]!.outputSizeInBytes).toBeCloseTo(2.2 * 1024);
+    expect(single!.root.details).toEqual([
+      "CPU: 0.00ns (0.00%), Scheduled: 0.00ns (0.00%), Blocked: 0.00ns (0.00%), Output: 25 rows (225B)",
+    ]);
+
+    expect(findTableScans(plan).map((found) => [found.table, found.filterPredicate])).toEqual([
+      ["tiny:region", "(regionkey IN (BIGINT '1', BIGINT '2'))"],
+      ["tiny:nation", undefined],
+    ]);
+    expect(findFullTableScans(plan).map((found) => found.columns.map((c) => c.symbol))).toEqual([
+      ["name", "regionkey"],
+    ]);
+    expect(findCrossJoins(plan)).toEqual([]);
+  });
+});
+
+describe("Trino.explain", () => {
+  const server = startStubServer({
+    pages: ({ body }) => [
+      {
+        columns: [],
+        data: [
+          [
+            body.startsWith("EXPLAIN ANALYZE")
+              ? TEXT_PLAN
+              : body.includes("TYPE VALIDATE")
+                ? true
+                : body.includes("TYPE IO")
+                  ? "{}"
+                  : body.includes("TYPE DISTRIBUTED")
+                    ? "not json"
+                    : LOGICAL_PLAN,
+          ],
+        ],
+      },
+    ],
+  });
+  const queries = () => server.requests.map((request) => request.body);
+
+  const client = new Trino({ baseUrl: server.url });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  test("should request and parse each type of plan", async () => {
+    const logical = await client.explain("SELECT * FROM nation, region");
+    expect(logical.ok && logical.value.root.name).toBe("Output");
+
+    const io = await client.explain("SELECT 1", { type: "io" });
+    expect(io).toEqual({
+      ok: true,
+      value: expect.objectContaining({ type: "io", inputs: [] }),
+    });
+
+    expect(await client.explain("SELECT 1", { type: "validate" })).toEqual({
+      ok: true,
+      value: { type: "validate", valid: true },
+    });
+
+    const analyzed = await client.explain("SELECT 1", {
+      type: "distributed",
+      analyze: true,
+      verbose: true,
+    });
+    expect(analyzed.ok && analyzed.value.fragments).toHaveLength(2);
+
+    expect(queries()).toEqual([
+      "EXPLAIN (FORMAT JSON) SELECT * FROM nation, region",
+      "EXPLAIN (TYPE IO, FORMAT JSON) SELECT 1",
+      "EXPLAIN (TYPE VALIDATE) SELECT 1",
+      "EXPLAIN ANALYZE VERBOSE SELECT 1",
+    ]);
+  });
+
+  test("should explain sql fragments", async () => {
+    await client.explain(sql`SELECT * FROM nation WHERE name = ${"it's"}`);
+    expect(queries()).toEqual(["EXPLAIN (FORMAT JSON) SELECT * FROM nation WHERE name = 'it''s'"]);
+  });
+
+  test("should report plans that cannot be parsed as ParseError", async () => {
+    const plan = await client.explain("SELECT 1", { type: "distributed" });
+    expect(!plan.ok && plan.error).toMatchObject({ _tag: "ParseError", text: "not json" });
+    expect(!plan.ok && plan.error._tag === "ParseError" && plan.error.error).toBeInstanceOf(
+      SyntaxError,
+    );
+  });
+});
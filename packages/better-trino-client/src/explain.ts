@@ -0,0 +1,475 @@
+/**
+ * Typed EXPLAIN plans of Trino (Trino.explain) and helpers to inspect them
+ * Plans are requested with FORMAT JSON, except for EXPLAIN ANALYZE which Trino only renders as text
+ *
+ * @see https://trino.io/docs/current/sql/explain.html
+ * @see https://trino.io/docs/current/sql/explain-analyze.html
+ */
+
+import type { MetadataOptions } from "./metadata.js";
+import { splitTopLevel } from "./signature.js";
+
+export type ExplainType = "logical" | "distributed" | "io" | "validate";
+
+export type ExplainOptions<Type extends ExplainType = ExplainType> = MetadataOptions & {
+  /** Kind of plan to request (default: "logical") */
+  type?: Type;
+  /**
+   * Run the query with EXPLAIN ANALYZE and return the distributed plan annotated with runtime statistics
+   * The query is executed, so only use it for queries without side effects; requires type "distributed"
+   */
+  analyze?: Type extends "distributed" ? boolean : never;
+  /** Include additional runtime statistics with analyze (EXPLAIN ANALYZE VERBOSE) */
+  verbose?: Type extends "distributed" ? boolean : never;
+};
+
+/**
+ * Cost estimates of a plan node
+ * Unknown estimates are NaN
+ */
+export interface PlanEstimate {
+  outputRowCount: number;
+  outputSizeInBytes: number;
+  cpuCost: number;
+  memoryCost: number;
+  networkCost: number;
+}
+
+/**
+ * Output symbol of a plan node
+ */
+export interface PlanSymbol {
+  symbol: string;
+  /** Type name (e.g., "bigint", "varchar(25)") */
+  type: string;
+}
+
+/**
+ * Operator of a plan (e.g., TableScan, Filter, InnerJoin, Aggregate, Exchange)
+ */
+export interface PlanNode {
+  /** ID of the node, absent in plans parsed from text (EXPLAIN ANALYZE) */
+  id?: string;
+  /** Operator name (e.g., "ScanFilterProject", "CrossJoin", "RemoteSource") */
+  name: string;
+  /** Attributes of the operator (e.g., { table: "tpch:tiny:nation", filterPredicate: "(regionkey = 1)" }) */
+  descriptor: Record<string, string>;
+  outputs: PlanSymbol[];
+  /** Further details, such as column assignments and, for EXPLAIN ANALYZE, runtime statistics */
+  details: string[];
+  estimates: PlanEstimate[];
+  children: PlanNode[];
+}
+
+/**
+ * Fragment of a distributed plan, executed as one stage
+ * RemoteSource nodes read from other fragments, listed in their sourceFragmentIds descriptor
+ */
+export interface PlanFragment {
+  id: string;
+  /** Partitioning of the fragment (e.g., "SOURCE", "HASH", "SINGLE"), only known in plans parsed from text */
+  partitioning?: string;
+  /** Statistics of the fragment, for EXPLAIN ANALYZE */
+  details: string[];
+  root: PlanNode;
+}
+
+export interface LogicalPlan {
+  type: "logical";
+  root: PlanNode;
+}
+
+export interface DistributedPlan {
+  type: "distributed";
+  fragments: PlanFragment[];
+  /** Text output of EXPLAIN ANALYZE the plan was parsed from, including the query summary */
+  text?: string;
+}
+
+/**
+ * Fully qualified name of a table
+ */
+export interface PlanTableName {
+  catalog: string;
+  schema: string;
+  table: string;
+}
+
+/**
+ * Range of values of a column constraint; bounds are "EXACTLY", "ABOVE" or "BELOW"
+ * A missing value is unbounded
+ */
+export interface IoRange {
+  low: { value?: string; bound: string };
+  high: { value?: string; bound: string };
+}
+
+export interface IoColumnConstraint {
+  columnName: string;
+  type: string;
+  domain: { nullsAllowed: boolean; ranges: IoRange[] };
+}
+
+/**
+ * Estimates of an IO plan
+ * Unknown estimates are NaN
+ */
+export interface IoEstimate {
+  outputRowCount: number;
+  outputSizeInBytes: number;
+  cpuCost: number;
+  maxMemory: number;
+  networkCost: number;
+}
+
+/**
+ * Table read by a query, with the constraints pushed down to the connector
+ */
+export interface IoInput {
+  table: PlanTableName;
+  /** Whether the constraint is never satisfied, so no data is read */
+  none: boolean;
+  /** Constraints on the columns of the table; empty when the whole table is read */
+  columnConstraints: IoColumnConstraint[];
+  estimate: IoEstimate;
+}
+
+export interface IoPlan {
+  type: "io";
+  inputs: IoInput[];
+  /** Table written by the query, if any */
+  output?: PlanTableName;
+  estimate: IoEstimate;
+}
+
+export interface ValidatePlan {
+  type: "validate";
+  /** Always true, since invalid queries fail with a query error */
+  valid: boolean;
+}
+
+/**
+ * Result of Trino.explain for each ExplainType
+ */
+export interface ExplainResults {
+  logical: LogicalPlan;
+  distributed: DistributedPlan;
+  io: IoPlan;
+  validate: ValidatePlan;
+}
+
+/**
+ * Table read by a scan node of a plan
+ */
+export interface PlanTableScan {
+  node: PlanNode;
+  catalog: string;
+  /** Connector-specific description of the table, e.g. "tiny:nation" or "default.orders constraint on [ds]" */
+  table: string;
+  /** Predicate evaluated while scanning, if any */
+  filterPredicate?: string;
+  /** Columns read from the table, with the symbol they are assigned to */
+  columns: { symbol: string; type?: string; column: string }[];
+}
+
+/**
+ * Parse the JSON output of EXPLAIN (FORMAT JSON)
+ * @throws SyntaxError if the output is not JSON
+ */
+export function parseLogicalPlan(json: string): LogicalPlan {
+  return { type: "logical", root: toPlanNode(JSON.parse(json)) };
+}
+
+/**
+ * Parse the JSON output of EXPLAIN (TYPE DISTRIBUTED, FORMAT JSON), an object of plans keyed by fragment ID
+ * @throws SyntaxError if the output is not JSON
+ */
+export function parseDistributedPlan(json: string): DistributedPlan {
+  const fragments = Object.entries(JSON.parse(json) as Record<string, unknown>).map(
+    ([id, root]): PlanFragment => ({ id, details: [], root: toPlanNode(root) }),
+  );
+  return { type: "distributed", fragments };
+}
+
+/**
+ * Parse the JSON output of EXPLAIN (TYPE IO, FORMAT JSON)
+ * @throws SyntaxError if the output is not JSON
+ */
+export function parseIoPlan(json: string): IoPlan {
+  const plan = JSON.parse(json) as {
+    inputTableColumnInfos?: {
+      table: JsonTableName;
+      constraint?: { none?: boolean; columnConstraints?: IoColumnConstraint[] };
+      estimate?: Record<string, unknown>;
+    }[];
+    outputTable?: JsonTableName;
+    estimate?: Record<string, unknown>;
+  };
+  return {
+    type: "io",
+    inputs: (plan.inputTableColumnInfos ?? []).map((input) => ({
+      table: toTableName(input.table),
+      none: input.constraint?.none ?? false,
+      columnConstraints: input.constraint?.columnConstraints ?? [],
+      estimate: toIoEstimate(input.estimate),
+    })),
+    output: plan.outputTable && toTableName(plan.outputTable),
+    estimate: toIoEstimate(plan.estimate),
+  };
+}
+
+/**
+ * Parse the text output of EXPLAIN ANALYZE or EXPLAIN (TYPE DISTRIBUTED) into fragments
+ * Layout and Estimates lines become the outputs and estimates of their node, other lines are kept as details
+ */
+export function parseTextPlan(text: string): DistributedPlan {
+  const fragments: PlanFragment[] = [];
+  let fragment:
+    | { id: string; partitioning: string; details: string[]; root?: PlanNode }
+    | undefined;
+  // Nodes of the current fragment that may still get children, with the column of their name
+  let stack: { node: PlanNode; column: number }[] = [];
+
+  const endFragment = () => {
+    if (fragment?.root) {
+      fragments.push({ ...fragment, root: fragment.root });
+    }
+  };
+
+  for (const line of text.split("\n")) {
+    const header = /^Fragment (\S+) \[(.*)\]$/.exec(line.trim());
+    if (header) {
+      endFragment();
+      fragment = { id: header[1]!, partitioning: header[2]!, details: [] };
+      stack = [];
+      continue;
+    }
+    if (!fragment) {
+      continue;
+    }
+
+    const branch = /^([\s│]*)[└├]─ /.exec(line);
+    const content = line.replace(/^[\s│]*(?:[└├]─ )?/, "").trim();
+    const operator = /^([A-Z]\w*)(?:\[(.*)\])?$/.exec(content);
+    if (branch && operator && stack.length > 0) {
+      // A child is drawn below the name of its parent
+      const column = branch[1]!.length;
+      while (stack.length > 1 && stack.at(-1)!.column > column) {
+        stack.pop();
+      }
+      const node = textPlanNode(operator[1]!, operator[2]);
+      stack.at(-1)!.node.children.push(node);
+      stack.push({ node, column: column + 3 });
+    } else if (operator && !fragment.root) {
+      fragment.root = textPlanNode(operator[1]!, operator[2]);
+      stack = [{ node: fragment.root, column: line.length - line.trimStart().length }];
+    } else if (content) {
+      const node = stack.at(-1)?.node;
+      if (!node) {
+        fragment.details.push(content);
+      } else if (content.startsWith("Layout: ")) {
+        node.outputs = splitTopLevel(content.slice("Layout: [".length, -1)).map(toPlanSymbol);
+      } else if (content.startsWith("Estimates: ")) {
+        node.estimates.push(parseTextEstimate(content));
+      } else {
+        node.details.push(content);
+      }
+    }
+  }
+  endFragment();
+
+  return { type: "distributed", fragments, text };
+}
+
+/**
+ * Iterate over the nodes of a plan, depth-first, parents before their children
+ */
+export function* walkPlan(plan: PlanNode | LogicalPlan | DistributedPlan): Generator<PlanNode> {
+  if ("type" in plan) {
+    for (const root of plan.type === "logical" ? [plan.root] : plan.fragments.map((f) => f.root)) {
+      yield* walkPlan(root);
+    }
+    return;
+  }
+  yield plan;
+  for (const child of plan.children) {
+    yield* walkPlan(child);
+  }
+}
+
+/**
+ * Find the tables read by a plan, with the columns read from them
+ */
+export function findTableScans(plan: PlanNode | LogicalPlan | DistributedPlan): PlanTableScan[] {
+  const scans: PlanTableScan[] = [];
+  for (const node of walkPlan(plan)) {
+    const table = node.descriptor["table"];
+    if (!SCAN_NODES.has(node.name) || table === undefined) {
+      continue;
+    }
+
+    const separator = table.indexOf(":");
+    const types = new Map(node.outputs.map((output) => [output.symbol, output.type]));
+    const columns = node.details.flatMap((detail) => {
+      const assignment = /^(\S+) := (.+)$/.exec(detail);
+      return assignment
+        ? [{ symbol: assignment[1]!, type: types.get(assignment[1]!), column: assignment[2]! }]
+        : [];
+    });
+    scans.push({
+      node,
+      catalog: separator === -1 ? "" : table.slice(0, separator),
+      table: table.slice(separator + 1),
+      filterPredicate: node.descriptor["filterPredicate"],
+      columns,
+    });
+  }
+  return scans;
+}
+
+/**
+ * Find the scans that read whole tables: no predicate is evaluated while scanning and no constraint was
+ * pushed down to the connector
+ * Connectors describe pushed down constraints differently, so this only recognizes those mentioning a
+ * constraint in the table description (e.g., Hive's "constraint on [ds]"); EXPLAIN (TYPE IO) reports
+ * them exactly
+ */
+export function findFullTableScans(
+  plan: PlanNode | LogicalPlan | DistributedPlan,
+): PlanTableScan[] {
+  return findTableScans(plan).filter(
+    (scan) => scan.filterPredicate === undefined && !/\bconstraint\b/i.test(scan.table),
+  );
+}
+
+/**
+ * Find the joins without join criteria, which produce the cartesian product of their inputs
+ */
+export function findCrossJoins(plan: PlanNode | LogicalPlan | DistributedPlan): PlanNode[] {
+  return [...walkPlan(plan)].filter(
+    (node) =>
+      node.name === "CrossJoin" ||
+      (node.name === "InnerJoin" && !node.descriptor["criteria"] && !node.descriptor["filter"]),
+  );
+}
+
+/** Operators that read a table, possibly fused with a filter and a projection */
+const SCAN_NODES = new Set(["TableScan", "ScanFilter", "ScanProject", "ScanFilterProject"]);
+
+interface JsonTableName {
+  catalog: string;
+  schemaTable: { schema: string; table: string };
+}
+
+function toTableName(name: JsonTableName): PlanTableName {
+  return { catalog: name.catalog, schema: name.schemaTable.schema, table: name.schemaTable.table };
+}
+
+/**
+ * Convert a node of a JSON plan, whose unknown estimates are serialized as "NaN"
+ */
+function toPlanNode(value: unknown): PlanNode {
+  const node = value as {
+    id?: string;
+    name: string;
+    descriptor?: Record<string, string>;
+    outputs?: PlanSymbol[];
+    details?: string[];
+    estimates?: Record<string, unknown>[];
+    children?: unknown[];
+  };
+  return {
+    id: node.id,
+    name: node.name,
+    descriptor: node.descriptor ?? {},
+    outputs: node.outputs ?? [],
+    details: node.details ?? [],
+    estimates: (node.estimates ?? []).map((estimate) => ({
+      outputRowCount: Number(estimate["outputRowCount"] ?? NaN),
+      outputSizeInBytes: Number(estimate["outputSizeInBytes"] ?? NaN),
+      cpuCost: Number(estimate["cpuCost"] ?? NaN),
+      memoryCost: Number(estimate["memoryCost"] ?? NaN),
+      networkCost: Number(estimate["networkCost"] ?? NaN),
+    })),
+    children: (node.children ?? []).map(toPlanNode),
+  };
+}
+
+function toIoEstimate(estimate: Record<string, unknown> = {}): IoEstimate {
+  return {
+    outputRowCount: Number(estimate["outputRowCount"] ?? NaN),
+    outputSizeInBytes: Number(estimate["outputSizeInBytes"] ?? NaN),
+    cpuCost: Number(estimate["cpuCost"] ?? NaN),
+    maxMemory: Number(estimate["maxMemory"] ?? NaN),
+    networkCost: Number(estimate["networkCost"] ?? NaN),
+  };
+}
+
+/**
+ * Create a node from the name and bracketed attributes of a text plan line
+ * @example textPlanNode("TableScan", "table = tpch:tiny:nation") // descriptor: { table: "tpch:tiny:nation" }
+ */
+function textPlanNode(name: string, attributes = ""): PlanNode {
+  const descriptor: Record<string, string> = {};
+  let key: string | undefined;
+  for (const part of splitTopLevel(attributes)) {
+    const attribute = /^(\w+) = ([\s\S]*)$/.exec(part);
+    if (attribute) {
+      key = attribute[1]!;
+      descriptor[key] = attribute[2]!;
+    } else if (key !== undefined) {
+      // A top-level comma inside a value, such as in a predicate
+      descriptor[key] += `, ${part}`;
+    }
+  }
+  return { name, descriptor, outputs: [], details: [], estimates: [], children: [] };
+}
+
+/**
+ * Convert a "symbol:type" entry of a Layout line
+ */
+function toPlanSymbol(entry: string): PlanSymbol {
+  const separator = entry.indexOf(":");
+  return separator === -1
+    ? { symbol: entry, type: "" }
+    : { symbol: entry.slice(0, separator), type: entry.slice(separator + 1) };
+}
+
+/**
+ * Parse an Estimates line (e.g., "Estimates: {rows: 25 (225B), cpu: 225, memory: 0B, network: 0B}")
+ */
+function parseTextEstimate(line: string): PlanEstimate {
+  const rows = /rows: (\S+)(?: \(([^)]*)\))?/.exec(line);
+  const value = (name: string) => new RegExp(`${name}: ([^,}]+)`).exec(line)?.[1];
+  return {
+    outputRowCount: parseQuantity(rows?.[1]),
+    outputSizeInBytes: parseQuantity(rows?.[2]),
+    cpuCost: parseQuantity(value("cpu")),
+    memoryCost: parseQuantity(value("memory")),
+    networkCost: parseQuantity(value("network")),
+  };
+}
+
+const QUANTITY_UNITS: Record<string, number> = {
+  "": 1,
+  B: 1,
+  k: 1e3,
+  M: 1e6,
+  kB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4,
+  PB: 1024 ** 5,
+};
+
+/**
+ * Parse a count or data size of a text plan (e.g., "25", "1.2k", "3.5MB"); "?" and unknown units are NaN
+ */
+function parseQuantity(text: string | undefined): number {
+  const match = /^([\d.]+)\s*([A-Za-z]*)$/.exec(text?.trim() ?? "");
+  if (!match) {
+    return NaN;
+  }
+  const unit = QUANTITY_UNITS[match[2]!];
+  return unit === undefined ? NaN : Number(match[1]) * unit;
+}
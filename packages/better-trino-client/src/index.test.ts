@@ -4,15 +4,28 @@
  */
 
 import { describe, test, expect, beforeAll } from "bun:test";
-import { Trino } from "./index.js";
-import type { QuerySuccessResult, QueryResult } from "./types.js";
+import {
+  ParameterKind,
+  Trino,
+  findCrossJoins,
+  findFullTableScans,
+  findTableScans,
+  sql,
+} from "./index.js";
+import type {
+  ParseError,
+  QueryErrorResult,
+  QuerySuccessResult,
+  QueryResult,
+  Result,
+} from "./types.js";
 
 const TRINO_BASE_URL = process.env.TRINO_URL || "http://localhost:8080";
 
 /**
  * Helper to unwrap QueryResult and throw on error
  */
-function unwrap(result: QueryResult): QuerySuccessResult {
+function unwrap<Row = unknown[]>(result: QueryResult<Row>): QuerySuccessResult<Row> {
   if (!result.ok) {
     if (result.error._tag === "FetchError") {
       throw new Error(`Fetch error: ${result.error.error}`);
@@ -20,13 +33,25 @@ function unwrap(result: QueryResult): QuerySuccessResult {
       throw new Error(
         `HTTP error: ${result.error.response.status} ${result.error.response.statusText}`,
       );
-    } else {
+    } else if ("errorType" in result.error) {
       throw new Error(`Query error (${result.error.errorType}): ${result.error.message}`);
+    } else {
+      throw new Error(`Query failed: ${result.error._tag}`);
     }
   }
   return result.value;
 }
 
+/**
+ * Helper to unwrap the result of a metadata method and throw on error
+ */
+function unwrapMetadata<T>(result: Result<T, QueryErrorResult | ParseError>): T {
+  if (!result.ok) {
+    throw new Error(`Metadata query failed: ${result.error._tag}`);
+  }
+  return result.value;
+}
+
 describe("Trino Client", () => {
   let client: Trino;
 
@@ -73,6 +98,28 @@ describe("Trino Client", () => {
       }
     });
 
+    test("should return rows as objects across pages", async () => {
+      interface Nation {
+        nationkey: number;
+        name: string;
+        name_2: string;
+      }
+      const rows: Nation[] = [];
+
+      for await (const result of client.executeQuery<Nation>(
+        "SELECT nationkey, name, name FROM nation ORDER BY nationkey",
+        { rowFormat: "object" },
+      )) {
+        const queryResult = unwrap(result);
+        if (queryResult.data) {
+          rows.push(...queryResult.data);
+        }
+      }
+
+      expect(rows.length).toBe(25);
+      expect(rows[0]).toEqual({ nationkey: 0, name: "ALGERIA", name_2: "ALGERIA" });
+    });
+
     test("should handle session management", async () => {
       const results: QuerySuccessResult[] = [];
 
@@ -83,6 +130,25 @@ describe("Trino Client", () => {
       expect(results.length).toBeGreaterThan(0);
       expect(results[results.length - 1]!.updateType).toBe("SET SESSION");
     });
+
+    test("should isolate session changes between sessions", async () => {
+      const session = client.session({ properties: { query_max_run_time: "5m" } });
+
+      for await (const result of client.executeQuery("USE tpch.sf1", { session })) {
+        unwrap(result);
+      }
+      expect(session.schema).toBe("sf1");
+      expect(client.defaultSession.schema).toBe("tiny");
+
+      const schemas: unknown[][] = [];
+      for (const options of [{ session }, {}]) {
+        for await (const result of client.executeQuery("SELECT current_schema", options)) {
+          schemas.push(...(unwrap(result).data ?? []));
+        }
+      }
+      expect(schemas).toEqual([["sf1"], ["tiny"]]);
+      expect(session.properties).toEqual({ query_max_run_time: "5m" });
+    });
   });
 
   describe("Column Types", () => {
@@ -154,6 +220,35 @@ describe("Trino Client", () => {
       expect(data![0]![1]).toEqual({ key1: 10, key2: 20 });
     });
 
+    test("should decode values based on column types when enabled", async () => {
+      const rows: unknown[][] = [];
+
+      for await (const result of client.executeQuery(
+        `
+        SELECT
+          CAST(9007199254740993 AS BIGINT) as bigint_col,
+          CAST(12.34 AS DECIMAL(10, 2)) as decimal_col,
+          TIMESTAMP '2024-01-02 03:04:05.678 UTC' as timestamp_tz_col,
+          X'0102' as varbinary_col,
+          MAP(ARRAY[1], ARRAY[ROW(1, 'a')]) as map_col
+      `,
+        { decode: true },
+      )) {
+        const queryResult = unwrap(result);
+        if (queryResult.data) {
+          rows.push(...queryResult.data);
+        }
+      }
+
+      expect(rows.length).toBe(1);
+      const [bigintValue, decimalValue, timestampValue, varbinaryValue, mapValue] = rows[0]!;
+      expect(bigintValue).toBe(9007199254740993n);
+      expect(decimalValue).toEqual({ _tag: "Decimal", value: "12.34", precision: 10, scale: 2 });
+      expect(timestampValue).toEqual(new Date("2024-01-02T03:04:05.678Z"));
+      expect(varbinaryValue).toEqual(new Uint8Array([1, 2]));
+      expect(mapValue).toEqual(new Map([[1, { field0: 1, field1: "a" }]]));
+    });
+
     test("should verify rawType values match standard types", async () => {
       let columns: QuerySuccessResult["columns"];
 
@@ -313,6 +408,66 @@ describe("Trino Client", () => {
       expect(gotCancelError).toBe(true);
     });
 
+    test("should cancel the query when iteration stops early", async () => {
+      let queryId: string | undefined;
+
+      for await (const result of client.executeQuery("SELECT * FROM lineitem")) {
+        queryId = unwrap(result).id;
+        break;
+      }
+
+      let state: unknown;
+      for await (const result of client.executeQuery(
+        `SELECT state, error_code FROM system.runtime.queries WHERE query_id = '${queryId}'`,
+      )) {
+        const queryResult = unwrap(result);
+        if (queryResult.data?.length) {
+          state = queryResult.data[0];
+        }
+      }
+
+      expect(state).toEqual(["FAILED", "USER_CANCELED"]);
+    });
+
+    test("should yield AbortError and cancel the query when the signal fires", async () => {
+      const controller = new AbortController();
+      const errors: QueryErrorResult[] = [];
+      let pages = 0;
+
+      for await (const result of client.executeQuery("SELECT * FROM lineitem", {
+        signal: controller.signal,
+      })) {
+        if (!result.ok) {
+          errors.push(result.error);
+          continue;
+        }
+        pages++;
+        controller.abort("stop");
+      }
+
+      expect(pages).toBe(1);
+      expect(errors).toEqual([{ _tag: "AbortError", reason: "stop" }]);
+    });
+
+    test("should yield TimeoutError with the last stats when the deadline expires", async () => {
+      const errors: QueryErrorResult[] = [];
+
+      for await (const result of client.executeQuery(
+        "SELECT count(*) FROM lineitem CROSS JOIN lineitem",
+        { timeoutMs: 1000 },
+      )) {
+        if (!result.ok) {
+          errors.push(result.error);
+        }
+      }
+
+      expect(errors.length).toBe(1);
+      expect(errors[0]).toMatchObject({ _tag: "TimeoutError", timeoutMs: 1000 });
+      if (errors[0]?._tag === "TimeoutError") {
+        expect(errors[0].stats?.state).toBeDefined();
+      }
+    });
+
     test("should handle invalid cancel URI", async () => {
       const invalidUri = `${TRINO_BASE_URL}/v1/statement/invalid-query-id/invalid-token`;
       const cancelResult = await client.cancelQuery(invalidUri);
@@ -324,6 +479,37 @@ describe("Trino Client", () => {
     });
   });
 
+  describe("Transactions", () => {
+    test("should run queries in a read-only transaction and commit", async () => {
+      const result = await client.transaction(
+        async (tx) => {
+          const rows: unknown[][] = [];
+          for await (const result of tx.executeQuery("SELECT count(*) FROM nation")) {
+            rows.push(...(unwrap(result).data ?? []));
+          }
+          return rows;
+        },
+        { readOnly: true, isolationLevel: "REPEATABLE READ" },
+      );
+
+      expect(result).toEqual({ ok: true, value: [[25]] });
+      expect(client.defaultSession.transactionId).toBeUndefined();
+    });
+
+    test("should roll back when a query in the transaction fails", async () => {
+      const result = await client.transaction(async (tx) => {
+        for await (const _ of tx.executeQuery("SELECT * FROM missing_table")) {
+          // Discard
+        }
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toMatchObject({ _tag: "UserError", errorName: "TABLE_NOT_FOUND" });
+      }
+    });
+  });
+
   describe("Prepared Statements", () => {
     test("should allocate, describe, and deallocate a prepared statement", async () => {
       // Allocate a prepared statement
@@ -352,5 +538,228 @@ describe("Trino Client", () => {
         unwrap(result); // Just verify it didn't error
       }
     });
+
+    test("should bind parameters to placeholders", async () => {
+      const rows: unknown[][] = [];
+
+      for await (const result of client.executeQuery(
+        "SELECT ?, ?, ?, ?, ?, ?, ?, ? FROM nation WHERE nationkey = ?",
+        {
+          params: [
+            "it's",
+            1.5,
+            2n ** 62n,
+            true,
+            new Date("2024-01-15T10:30:00.123Z"),
+            new Uint8Array([0xca, 0xfe]),
+            [1, 2],
+            null,
+            0,
+          ],
+          decode: true,
+        },
+      )) {
+        const queryResult = unwrap(result);
+        if (queryResult.data) {
+          rows.push(...queryResult.data);
+        }
+      }
+
+      expect(rows).toEqual([
+        [
+          "it's",
+          1.5,
+          2n ** 62n,
+          true,
+          new Date("2024-01-15T10:30:00.123Z"),
+          new Uint8Array([0xca, 0xfe]),
+          [1, 2],
+          null,
+        ],
+      ]);
+    });
+
+    test("should keep session prepared statements when binding parameters", async () => {
+      for await (const result of client.executeQuery("PREPARE kept FROM SELECT 1")) {
+        unwrap(result);
+      }
+
+      for await (const result of client.executeQuery("SELECT ?", { params: [1] })) {
+        unwrap(result);
+      }
+
+      const rows: unknown[][] = [];
+      for await (const result of client.executeQuery("EXECUTE kept")) {
+        const queryResult = unwrap(result);
+        if (queryResult.data) {
+          rows.push(...queryResult.data);
+        }
+      }
+      expect(rows).toEqual([[1]]);
+
+      for await (const result of client.executeQuery("DEALLOCATE PREPARE kept")) {
+        unwrap(result);
+      }
+    });
+
+    test("should execute sql fragments", async () => {
+      const rows: unknown[][] = [];
+      const region = "EUROPE";
+
+      for await (const result of client.executeQuery(
+        sql`SELECT ${sql.id("n", "name")} FROM ${sql.id("tpch", "tiny", "nation")} n
+            JOIN region r ON n.regionkey = r.regionkey
+            WHERE r.name = ${region} AND n.name IN (${sql.join(["FRANCE", "GERMANY", "PERU"])})
+            ORDER BY 1`,
+      )) {
+        const queryResult = unwrap(result);
+        if (queryResult.data) {
+          rows.push(...queryResult.data);
+        }
+      }
+
+      expect(rows).toEqual([["FRANCE"], ["GERMANY"]]);
+    });
+
+    test("should yield ParameterError without submitting the query", async () => {
+      const results: QueryResult[] = [];
+      for await (const result of client.executeQuery("SELECT ?", {
+        params: [new Date(Number.NaN)],
+      })) {
+        results.push(result);
+      }
+
+      expect(results).toEqual([
+        { ok: false, error: { _tag: "ParameterError", index: 0, message: "Invalid Date" } },
+      ]);
+    });
+  });
+
+  describe("Collecting Helpers", () => {
+    test("should collect all pages into one result", async () => {
+      const result = await client.query("SELECT nationkey, name FROM nation ORDER BY nationkey");
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.columns.map((column) => column.name)).toEqual(["nationkey", "name"]);
+        expect(result.value.rows).toHaveLength(25);
+        expect(result.value.rows[0]).toEqual([0, "ALGERIA"]);
+        expect(result.value.stats.state).toBe("FINISHED");
+      }
+    });
+
+    test("should return LimitExceededError when maxRows is exceeded", async () => {
+      const result = await client.query("SELECT * FROM nation", { maxRows: 10 });
+      expect(result).toEqual({
+        ok: false,
+        error: { _tag: "LimitExceededError", limit: "maxRows", max: 10 },
+      });
+    });
+
+    test("should return LimitExceededError when maxBytes is exceeded", async () => {
+      const result = await client.query("SELECT * FROM nation", { maxBytes: 100 });
+      expect(result).toEqual({
+        ok: false,
+        error: { _tag: "LimitExceededError", limit: "maxBytes", max: 100 },
+      });
+    });
+
+    test("should get the first row", async () => {
+      const row = await client.first<{ name: string }>(
+        "SELECT name FROM nation ORDER BY nationkey",
+        { rowFormat: "object" },
+      );
+      expect(row).toEqual({ ok: true, value: { name: "ALGERIA" } });
+
+      const none = await client.first("SELECT name FROM nation WHERE nationkey < 0");
+      expect(none).toEqual({ ok: true, value: undefined });
+    });
+
+    test("should get a scalar value", async () => {
+      const count = await client.scalar<number>("SELECT count(*) FROM nation");
+      expect(count).toEqual({ ok: true, value: 25 });
+    });
+
+    test("should return query errors", async () => {
+      const result = await client.scalar("SELECT * FROM nonexistent_table");
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error._tag).toBe("UserError");
+      }
+    });
+  });
+
+  describe("Metadata", () => {
+    test("should list catalogs, schemas and tables", async () => {
+      const catalogs = unwrapMetadata(await client.listCatalogs());
+      expect(catalogs).toContain("tpch");
+
+      const schemas = unwrapMetadata(await client.listSchemas("tpch"));
+      expect(schemas).toContain("tiny");
+
+      const tables = unwrapMetadata(await client.listTables("tpch", "tiny"));
+      expect(tables).toContainEqual({
+        catalog: "tpch",
+        schema: "tiny",
+        name: "nation",
+        type: "BASE TABLE",
+      });
+    });
+
+    test("should describe a table", async () => {
+      const description = unwrapMetadata(await client.describeTable("tpch", "tiny", "nation"));
+      expect(description?.columns.map((column) => [column.name, column.type])).toEqual([
+        ["nationkey", "bigint"],
+        ["name", "varchar(25)"],
+        ["regionkey", "bigint"],
+        ["comment", "varchar(152)"],
+      ]);
+      expect(description?.columns[1]?.typeSignature).toEqual({
+        rawType: "varchar",
+        arguments: [{ kind: ParameterKind.LONG, value: 25 }],
+      });
+
+      expect(unwrapMetadata(await client.describeTable("tpch", "tiny", "missing"))).toBeUndefined();
+    });
+
+    test("should list functions", async () => {
+      const functions = unwrapMetadata(await client.listFunctions());
+      expect(functions).toContainEqual(
+        expect.objectContaining({ name: "abs", argumentTypes: ["bigint"], kind: "scalar" }),
+      );
+    });
+  });
+
+  describe("Explain", () => {
+    test("should explain logical and distributed plans", async () => {
+      const query = "SELECT n.name FROM tpch.tiny.nation n, tpch.tiny.region r";
+      const logical = unwrapMetadata(await client.explain(query));
+      expect(logical.root.name).toBe("Output");
+      expect(findCrossJoins(logical)).toHaveLength(1);
+      expect(findFullTableScans(logical).map((scan) => scan.catalog)).toEqual(["tpch", "tpch"]);
+
+      const distributed = unwrapMetadata(await client.explain(query, { type: "distributed" }));
+      expect(distributed.fragments.length).toBeGreaterThan(1);
+    });
+
+    test("should explain IO and validate queries", async () => {
+      const query = "SELECT * FROM tpch.tiny.nation WHERE regionkey = 1";
+      const io = unwrapMetadata(await client.explain(query, { type: "io" }));
+      expect(io.inputs[0]?.table).toEqual({ catalog: "tpch", schema: "tiny", table: "nation" });
+
+      const validated = unwrapMetadata(await client.explain(query, { type: "validate" }));
+      expect(validated.valid).toBe(true);
+    });
+
+    test("should explain analyze", async () => {
+      const plan = unwrapMetadata(
+        await client.explain("SELECT count(*) FROM tpch.tiny.nation", {
+          type: "distributed",
+          analyze: true,
+        }),
+      );
+      expect(plan.text).toContain("Fragment");
+      expect(findTableScans(plan).map((scan) => scan.catalog)).toContain("tpch");
+    });
   });
 });
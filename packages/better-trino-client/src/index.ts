@@ -6,151 +6,704 @@
 
 export * from "./types.js";
 export * from "./protocol.js";
+export * from "./decode.js";
+export * from "./rows.js";
+export * from "./spooling.js";
+export * from "./retry.js";
+export * from "./literals.js";
+export * from "./sql.js";
+export * from "./session.js";
+export * from "./transaction.js";
+export * from "./auth.js";
+export * from "./tls.js";
+export * from "./interceptors.js";
+export * from "./observer.js";
+export * from "./progress.js";
+export * from "./stream.js";
+export * from "./serialize.js";
+export * from "./signature.js";
+export * from "./metadata.js";
+export * from "./cluster.js";
+export * from "./explain.js";
+export * from "./typegen.js";
+export * from "./schema.js";
 
-import type { FetchError, HttpError, QueryResult, Result, TrinoQueryError } from "./types.js";
+import type {
+  AbortError,
+  AuthenticationError,
+  CollectedResult,
+  DecodeError,
+  FetchError,
+  HttpError,
+  LimitExceededError,
+  ParameterError,
+  ParseError,
+  QueryErrorResult,
+  QueryResult,
+  QuerySuccessResult,
+  Result,
+  TimeoutError,
+  TlsError,
+  TransactionError,
+  TrinoQueryError,
+} from "./types.js";
 
 import type {
+  BasicQueryInfo,
   ClientRequestHeaders,
-  ClientResponseHeaders,
+  Column,
+  NodeStats,
+  QueryData,
   QueryError,
+  QueryInfo,
   QueryResults,
+  ServerInfo,
+  StatementStats,
 } from "./protocol.js";
 
-export interface BasicAuth {
-  type: "basic";
-  username: string;
-  password: string;
-}
-
-export interface BearerAuth {
-  type: "bearer";
-  token: string;
-}
+import { createRowDecoder, parseLosslessJson, type DecodeOptions } from "./decode.js";
+import { columnKeys, estimateRowsSize, toRowObject } from "./rows.js";
+import {
+  decodeSegment,
+  isEncodedQueryData,
+  requestedEncodings,
+  segmentDecompressors,
+  type SpoolingOptions,
+} from "./spooling.js";
+import {
+  RETRYABLE_POLL_STATUSES,
+  RETRYABLE_SUBMIT_STATUSES,
+  resolveRetryOptions,
+  retryDelay,
+  type RetryOptions,
+} from "./retry.js";
+import { renderLiteral, type QueryParameter } from "./literals.js";
+import { SqlFragment, sql } from "./sql.js";
+import { Session, type SessionOptions } from "./session.js";
+import {
+  startTransactionStatement,
+  toTransactionError,
+  type Transaction,
+  type TransactionOptions,
+} from "./transaction.js";
+import {
+  DEFAULT_OAUTH2_TIMEOUT_MS,
+  parseOAuth2Challenge,
+  pollToken,
+  type AuthConfig,
+  type OAuth2Auth,
+  type OAuth2Challenge,
+  TokenCache,
+} from "./auth.js";
+import { createTlsFetch, tlsErrorCode, type TlsOptions } from "./tls.js";
+import { intercept, type FetchFunction, type Interceptor } from "./interceptors.js";
+import type { QueryObserver, QueryOutcome } from "./observer.js";
+import { toQueryProgress, type QueryProgress } from "./progress.js";
+import { toNodeReadable, toRowStream } from "./stream.js";
+import {
+  toColumnInfo,
+  toFunctionInfo,
+  toMaterializedViewInfo,
+  toTableInfo,
+  toViewInfo,
+  type FunctionInfo,
+  type MaterializedViewInfo,
+  type MetadataOptions,
+  type TableDescription,
+  type TableInfo,
+  type ViewInfo,
+} from "./metadata.js";
+import {
+  matchesQueryFilter,
+  type ClusterError,
+  type ClusterRequestOptions,
+  type ListQueriesOptions,
+} from "./cluster.js";
+import {
+  parseDistributedPlan,
+  parseIoPlan,
+  parseLogicalPlan,
+  parseTextPlan,
+  type ExplainOptions,
+  type ExplainResults,
+  type ExplainType,
+} from "./explain.js";
+import {
+  toQuerySchema,
+  validateColumns,
+  validateRows,
+  type QuerySchema,
+  type StandardSchemaV1,
+} from "./schema.js";
+import type { Readable } from "node:stream";
 
-export type AuthConfig = BasicAuth | BearerAuth;
+/**
+ * Name of the prepared statement used to bind QueryOptions.params
+ */
+const PARAMETERIZED_STATEMENT_NAME = "better_trino_statement";
 
 export interface TrinoClientConfig {
   /** Base URL of the Trino server (e.g., "http://localhost:8080") */
   baseUrl: string;
-  /** Authentication configuration (basic or bearer) */
+  /** Authentication configuration (basic, bearer, oauth2 or a token provider) */
   auth?: AuthConfig;
   /** Default request headers to include in all requests */
   headers?: ClientRequestHeaders;
+  /** Decode result values based on column types by default (see decodeValue) */
+  decode?: boolean | DecodeOptions;
+  /**
+   * Request results through the spooled protocol, negotiating the encoding via x-trino-query-data-encoding
+   * Segments are downloaded, decoded and acknowledged transparently, so results still contain inline rows
+   */
+  spooling?: boolean | SpoolingOptions;
+  /**
+   * Retry requests that fail with 429, 502, 503 or 504, as required by the client protocol (enabled by default)
+   * Pass false to disable retries
+   */
+  retry?: boolean | RetryOptions;
+  /** Default deadline for each query in milliseconds (see QueryOptions.timeoutMs) */
+  timeoutMs?: number;
+  /**
+   * TLS options for HTTPS connections (custom CA, client certificate for mutual TLS, servername override)
+   * Handshake failures are reported as TlsError
+   */
+  tls?: TlsOptions;
+  /**
+   * Custom fetch implementation used to send requests (e.g., to route them through a proxy)
+   * Takes precedence over tls, which the custom implementation must handle itself
+   */
+  fetch?: FetchFunction;
+  /** Hooks run around every request, in order (see Interceptor) */
+  interceptors?: Interceptor[];
+  /** Hooks for the lifecycle of every query, e.g. openTelemetry() of @better-trino/client/otel */
+  observer?: QueryObserver;
 }
 
 export interface QueryOptions {
   /** Additional headers to include in this specific query */
   headers?: ClientRequestHeaders;
+  /**
+   * Values bound to the ? placeholders of the query, in order
+   * The query is sent as a prepared statement and executed with EXECUTE ... USING, with each value
+   * rendered as a SQL literal (see QueryParameter); values that cannot be rendered yield a ParameterError
+   */
+  params?: readonly QueryParameter[];
+  /**
+   * Session to run the query in (see Trino.session)
+   * Session changes made by the query are applied to this session only; defaults to the client's default session
+   */
+  session?: Session;
+  /** Decode result values based on column types, overriding the client default */
+  decode?: boolean | DecodeOptions;
+  /**
+   * Shape of the rows in data: positional arrays (default) or objects keyed by column name
+   * Duplicate and empty column names are disambiguated as described in columnKeys
+   */
+  rowFormat?: "array" | "object";
+  /**
+   * Signal to abort the query
+   * Aborting cancels the query on the server and yields an AbortError
+   */
+  signal?: AbortSignal;
+  /**
+   * Deadline for the whole query in milliseconds, overriding the client default
+   * Covers queued time, execution time and the time between pages; when it expires the query is
+   * cancelled on the server and a TimeoutError is yielded
+   */
+  timeoutMs?: number;
+  /**
+   * Called with a progress snapshot for every protocol response, including pages without data and the
+   * response that reports a failure
+   */
+  onProgress?: (progress: QueryProgress) => void;
+  /**
+   * Standard Schema (e.g., a zod schema) validating each row after decoding, or schemas of the columns
+   * metadata and of the rows (see QuerySchema)
+   * Rows are replaced by the output of the schema; a rejected row or columns metadata cancels the query and
+   * yields a ValidationError
+   */
+  schema?: StandardSchemaV1 | QuerySchema;
+}
+
+export interface CollectOptions extends QueryOptions {
+  /** Maximum number of rows to collect; a query that returns more is cancelled with a LimitExceededError */
+  maxRows?: number;
+  /**
+   * Maximum size of the collected rows in bytes, estimated as the length of their JSON encoding
+   * A query whose rows exceed it is cancelled with a LimitExceededError
+   */
+  maxBytes?: number;
 }
 
 export class Trino {
   private baseUrl: string;
   private defaultHeaders: ClientRequestHeaders;
   private auth?: AuthConfig;
-  private sessionHeaders: ClientRequestHeaders;
+  private decode?: boolean | DecodeOptions;
+  private spooling?: boolean | SpoolingOptions;
+  private retry: Required<RetryOptions>;
+  private timeoutMs?: number;
+  /** Token issued by the OAuth2 flow, reused until the server challenges it */
+  private oauth2Token?: string;
+  /** Cached token of the token provider */
+  private tokenCache?: TokenCache;
+  /** Sends requests through the interceptors and the configured transport */
+  private transport: FetchFunction;
+  private observer?: QueryObserver;
+  /** OAuth2 flow in progress, shared by the requests challenged meanwhile */
+  private pendingOAuth2Token?: {
+    result: Promise<Result<string, AuthenticationError>>;
+    /** Aborts the flow once its last waiting request is aborted */
+    controller: AbortController;
+    /** Requests waiting for the token */
+    waiters: number;
+  };
+
+  /**
+   * Session used by queries that do not specify one
+   * Shared by every such query, matching a single client-side session per client
+   */
+  readonly defaultSession: Session;
 
   constructor(config: TrinoClientConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ""); // Remove trailing slash
     this.auth = config.auth;
+    this.tokenCache = config.auth?.type === "token" ? new TokenCache(config.auth) : undefined;
+    this.transport = intercept(
+      config.fetch ?? (config.tls ? createTlsFetch(config.tls) : (url, init) => fetch(url, init)),
+      config.interceptors ?? [],
+    );
     this.defaultHeaders = config.headers || {};
-    this.sessionHeaders = {};
+    this.defaultSession = new Session({ headers: this.defaultHeaders });
+    this.decode = config.decode;
+    this.spooling = config.spooling;
+    this.retry = resolveRetryOptions(config.retry);
+    this.timeoutMs = config.timeoutMs;
+    this.observer = config.observer;
+  }
+
+  /**
+   * Create an independent session
+   * Queries executed with the session (QueryOptions.session) track their own catalog, schema, path,
+   * session properties, roles, prepared statements and transaction, starting from the client's default headers
+   * @param options - Initial session state
+   */
+  session(options?: SessionOptions): Session {
+    return new Session({
+      ...options,
+      headers: { ...this.defaultHeaders, ...options?.headers },
+    });
   }
 
   /**
    * Execute a query and iterate over the results as they become available
    * Handles fetch, HTTP, and query errors in the error union
-   * @param sql - The SQL query to execute
+   * The Row type parameter is not checked at runtime; it describes the rows produced by the chosen rowFormat
+   * If iteration ends before the query completes (e.g. break in for await), the query is cancelled on the server
+   * @param query - The SQL query to execute, as a string or a fragment built with the sql template
    * @param options - Optional query execution options
    * @yields QueryResult (Ok with QuerySuccessResult or Err with QueryErrorResult)
    */
-  async *executeQuery(sql: string, options?: QueryOptions): AsyncGenerator<QueryResult, void> {
-    const headers = this.buildHeaders(this.sessionHeaders, options?.headers);
+  async *executeQuery<Row = unknown[]>(
+    query: string | SqlFragment,
+    options?: QueryOptions,
+  ): AsyncGenerator<QueryResult<Row>, void> {
+    const observation = this.observer?.onQueryStart({
+      query: query instanceof SqlFragment ? query.debug().template : query,
+      baseUrl: this.baseUrl,
+    });
+    if (!observation) {
+      yield* this.runQuery<Row>(query, options);
+      return;
+    }
 
-    // Initial POST request to /v1/statement
-    let response: Response;
+    let outcome: QueryOutcome = "cancelled";
     try {
-      response = await this.fetch(`${this.baseUrl}/v1/statement`, {
-        method: "POST",
-        headers: {
-          ...headers,
-          "Content-Type": "text/plain",
-        },
-        body: sql,
-      });
-    } catch (error) {
-      yield { ok: false, error: this.createFetchError(error) };
-      return;
+      for await (const result of this.runQuery<Row>(query, {
+        ...options,
+        headers: { ...observation.headers, ...options?.headers },
+      })) {
+        observation.onResult?.(result);
+        if (!result.ok) {
+          outcome = "failed";
+        } else if (!result.value.nextUri) {
+          outcome = "finished";
+        }
+        yield result;
+      }
+    } finally {
+      observation.onEnd?.(outcome);
     }
+  }
 
-    // Check for HTTP errors
-    if (!response.ok) {
-      yield { ok: false, error: this.createHttpError(response) };
-      return;
+  /**
+   * Submit a query and follow its nextUri links, yielding each page (see executeQuery)
+   */
+  private async *runQuery<Row>(
+    query: string | SqlFragment,
+    options?: QueryOptions,
+  ): AsyncGenerator<QueryResult<Row>, void> {
+    let sql = query;
+    if (sql instanceof SqlFragment) {
+      const literals = this.renderParameters(sql.values);
+      if (!literals.ok) {
+        yield literals;
+        return;
+      }
+      sql = sql.render(literals.value);
     }
 
-    this.sessionHeaders = this.updateSessionHeaders(this.sessionHeaders, response.headers);
+    const session = options?.session ?? this.defaultSession;
+    let sessionHeaders = session.headers;
+    let body = sql;
+    if (options?.params?.length) {
+      const literals = this.renderParameters(options.params);
+      if (!literals.ok) {
+        yield literals;
+        return;
+      }
+      // The statement travels in the header, so it is only prepared for this request
+      sessionHeaders = session.headersWithStatement(PARAMETERIZED_STATEMENT_NAME, sql);
+      body = `EXECUTE ${PARAMETERIZED_STATEMENT_NAME} USING ${literals.value.join(", ")}`;
+    }
+
+    const headers = this.buildHeaders(sessionHeaders, {
+      ...this.spoolingHeaders(),
+      ...options?.headers,
+    });
+    const decode = options?.decode ?? this.decode;
+    const decodeOptions = decode === true ? {} : decode || undefined;
+    const lossless = decodeOptions !== undefined;
+    // Columns only arrive on some pages, so the row mapper is created from the first page that has them
+    let columns: Column[] | undefined;
+    let mapRow: ((row: unknown[]) => unknown) | undefined;
+    const schema = options?.schema && toQuerySchema(options.schema);
+    // Number of rows validated so far, to report the index of a rejected row
+    let validatedRows = 0;
+
+    // The deadline aborts the query like the caller's signal, but is reported as a TimeoutError
+    const timeoutMs = options?.timeoutMs ?? this.timeoutMs;
+    const deadline = timeoutMs !== undefined ? new AbortController() : undefined;
+    const deadlineTimer = deadline && setTimeout(() => deadline.abort(), timeoutMs);
+    const signal =
+      deadline && options?.signal
+        ? AbortSignal.any([options.signal, deadline.signal])
+        : (deadline?.signal ?? options?.signal);
+    let lastStats: StatementStats | undefined;
+    let progress: QueryProgress | undefined;
+    const failure = (error: QueryErrorResult): QueryResult<Row> => ({
+      ok: false,
+      error:
+        error._tag === "AbortError" && deadline?.signal.aborted
+          ? this.createTimeoutError(timeoutMs!, lastStats)
+          : error,
+    });
+
+    // URI of the running query, cleared once the query completes or fails
+    let runningUri: string | undefined;
+    let cancellation: Promise<unknown> | undefined;
+    const cancel = () => {
+      if (runningUri && !cancellation) {
+        cancellation = this.cancelQuery(runningUri);
+      }
+      return cancellation;
+    };
+    // Cancel immediately on abort, even while the consumer is not iterating
+    const onAbort = () => void cancel();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    // Initial POST request to /v1/statement, then follow nextUri links until query is complete
+    let url = `${this.baseUrl}/v1/statement`;
+    let init: RequestInit = {
+      method: "POST",
+      headers: {
+        ...headers,
+        "Content-Type": "text/plain",
+      },
+      body,
+      signal,
+    };
+    let retryableStatuses = this.retry.retryInitialRequest
+      ? RETRYABLE_SUBMIT_STATUSES
+      : new Set<number>();
 
-    let result: QueryResults;
     try {
-      result = (await response.json()) as QueryResults;
-    } catch (error) {
-      yield { ok: false, error: this.createFetchError(error) };
-      return;
-    }
+      while (true) {
+        if (signal?.aborted) {
+          yield failure(this.createAbortError(signal));
+          return;
+        }
 
-    // Handle query errors
-    if (result.error) {
-      yield {
-        ok: false,
-        error: this.createQueryError(result.error),
-      };
-      return;
-    }
+        const fetched = await this.fetchWithRetry(url, init, retryableStatuses);
+        if (!fetched.ok) {
+          yield failure(fetched.error);
+          return;
+        }
+        const response = fetched.value;
 
-    // Success case - omit error field
-    const { error: _omitted1, ...successResult1 } = result;
-    yield { ok: true, value: successResult1 };
+        session.update(response.headers);
 
-    // Follow nextUri links until query is complete
-    while (result.nextUri) {
-      try {
-        response = await this.fetch(result.nextUri, {
+        let result: QueryResults;
+        try {
+          result = await this.parseResults(response, lossless);
+        } catch (error) {
+          yield failure(this.createResponseError(error, signal));
+          return;
+        }
+
+        lastStats = result.stats;
+        if (options?.onProgress) {
+          progress = toQueryProgress(result.id, result.stats, progress);
+          options.onProgress(progress);
+        }
+
+        // Handle query errors
+        if (result.error) {
+          runningUri = undefined;
+          yield {
+            ok: false,
+            error: this.createQueryError(result.error),
+          };
+          return;
+        }
+
+        runningUri = result.nextUri;
+
+        // Spooled segments are materialized so consumers always see inline rows
+        const data = await this.loadData(result.data, lossless, signal);
+        if (!data.ok) {
+          yield failure(data.error);
+          return;
+        }
+
+        if (result.columns && !columns) {
+          columns = result.columns;
+          mapRow = this.createRowMapper(columns, decodeOptions, options?.rowFormat);
+          const validated = schema?.columns && (await validateColumns(schema.columns, columns));
+          if (validated && !validated.ok) {
+            yield validated;
+            return;
+          }
+        }
+
+        // Success case - omit error field
+        const { error: _omitted, data: _encoded, ...successResult } = result;
+        let mapped: QuerySuccessResult<Row>;
+        try {
+          mapped = this.mapData<Row>(successResult, data.value, mapRow);
+        } catch (error) {
+          yield failure(this.createDecodeError(error));
+          return;
+        }
+        if (schema?.rows && mapped.data) {
+          const validated = await validateRows(schema.rows, mapped.data, columns, validatedRows);
+          if (!validated.ok) {
+            yield validated;
+            return;
+          }
+          mapped.data = validated.value as Row[];
+          validatedRows += validated.value.length;
+        }
+        yield { ok: true, value: mapped };
+
+        if (!result.nextUri) {
+          return;
+        }
+
+        url = result.nextUri;
+        init = {
           method: "GET",
-          headers: this.buildHeaders(this.sessionHeaders),
-        });
-      } catch (error) {
-        yield { ok: false, error: this.createFetchError(error) };
-        return;
+          headers: this.buildHeaders(session.headers),
+          signal,
+        };
+        retryableStatuses = RETRYABLE_POLL_STATUSES;
       }
+    } finally {
+      // Runs when the query completes, fails, is aborted, or the consumer stops iterating early
+      clearTimeout(deadlineTimer);
+      signal?.removeEventListener("abort", onAbort);
+      await cancel();
+    }
+  }
 
-      // Check for HTTP errors
-      if (!response.ok) {
-        yield { ok: false, error: this.createHttpError(response) };
-        return;
-      }
+  /**
+   * Execute a query and collect the rows of all pages
+   * Exceeding maxRows or maxBytes stops collecting and cancels the query
+   * @param query - The SQL query to execute, as a string or a fragment built with the sql template
+   * @param options - Query execution options and collection limits
+   * @returns The merged result of the query, or the error that ended it
+   */
+  async query<Row = unknown[]>(
+    query: string | SqlFragment,
+    options?: CollectOptions,
+  ): Promise<Result<CollectedResult<Row>, QueryErrorResult | LimitExceededError>> {
+    const { maxRows, maxBytes, ...queryOptions } = options ?? {};
+    const rows: Row[] = [];
+    let bytes = 0;
+    let columns: Column[] | undefined;
+    let last: QuerySuccessResult<Row> | undefined;
 
-      this.sessionHeaders = this.updateSessionHeaders(this.sessionHeaders, response.headers);
+    // Returning from the loop stops the iteration, which cancels the query
+    for await (const result of this.executeQuery<Row>(query, queryOptions)) {
+      if (!result.ok) {
+        return result;
+      }
+      last = result.value;
+      columns ??= result.value.columns;
 
-      try {
-        result = (await response.json()) as QueryResults;
-      } catch (error) {
-        yield { ok: false, error: this.createFetchError(error) };
-        return;
+      const data = result.value.data ?? [];
+      if (maxRows !== undefined && rows.length + data.length > maxRows) {
+        return { ok: false, error: this.createLimitExceededError("maxRows", maxRows) };
+      }
+      if (maxBytes !== undefined) {
+        bytes += estimateRowsSize(data);
+        if (bytes > maxBytes) {
+          return { ok: false, error: this.createLimitExceededError("maxBytes", maxBytes) };
+        }
       }
+      for (const row of data) {
+        rows.push(row);
+      }
+    }
 
-      // Handle query errors
-      if (result.error) {
-        yield {
-          ok: false,
-          error: this.createQueryError(result.error),
-        };
-        return;
+    // executeQuery always yields at least one result, so last is set once it completes
+    const { id, stats, warnings, updateType, updateCount } = last!;
+    return {
+      ok: true,
+      value: { id, columns: columns ?? [], rows, stats, warnings, updateType, updateCount },
+    };
+  }
+
+  /**
+   * Execute a query and get its first row
+   * The query is cancelled once the first row arrives
+   * @param query - The SQL query to execute, as a string or a fragment built with the sql template
+   * @param options - Optional query execution options
+   * @returns The first row, undefined if the query returns no rows, or the error that ended the query
+   */
+  async first<Row = unknown[]>(
+    query: string | SqlFragment,
+    options?: QueryOptions,
+  ): Promise<Result<Row | undefined, QueryErrorResult>> {
+    for await (const result of this.executeQuery<Row>(query, options)) {
+      if (!result.ok) {
+        return result;
+      }
+      const row = result.value.data?.[0];
+      if (row !== undefined) {
+        return { ok: true, value: row };
       }
+    }
+    return { ok: true, value: undefined };
+  }
+
+  /**
+   * Execute a query and get the value of the first column of its first row
+   * The query is cancelled once the first row arrives
+   * @param query - The SQL query to execute, as a string or a fragment built with the sql template
+   * @param options - Optional query execution options
+   * @returns The value, undefined if the query returns no rows, or the error that ended the query
+   */
+  async scalar<T = unknown>(
+    query: string | SqlFragment,
+    options?: Omit<QueryOptions, "rowFormat">,
+  ): Promise<Result<T | undefined, QueryErrorResult>> {
+    const row = await this.first<unknown[]>(query, { ...options, rowFormat: "array" });
+    return row.ok ? { ok: true, value: row.value?.[0] as T | undefined } : row;
+  }
 
-      // Success case - omit error field
-      const { error: _omitted2, ...successResult2 } = result;
-      yield { ok: true, value: successResult2 };
+  /**
+   * Execute a query and stream its rows as a WHATWG ReadableStream
+   * The next page is only requested when the consumer reads, and cancelling the stream cancels the query
+   * The stream errors with the QueryErrorResult of a failed query
+   * @param query - The SQL query to execute, as a string or a fragment built with the sql template
+   * @param options - Optional query execution options
+   */
+  stream<Row = unknown[]>(
+    query: string | SqlFragment,
+    options?: QueryOptions,
+  ): ReadableStream<Row> {
+    return toRowStream(this.executeQuery<Row>(query, options));
+  }
+
+  /**
+   * Execute a query and stream its rows as a Node.js Readable in object mode
+   * Behaves like stream(); destroying the Readable cancels the query
+   * @param query - The SQL query to execute, as a string or a fragment built with the sql template
+   * @param options - Optional query execution options
+   */
+  nodeStream<Row = unknown[]>(query: string | SqlFragment, options?: QueryOptions): Readable {
+    return toNodeReadable(this.executeQuery<Row>(query, options));
+  }
+
+  /**
+   * Run a callback within a transaction
+   * Queries executed through the Transaction handle are scoped to the transaction, which is committed when the
+   * callback returns and rolled back when it throws or when one of its queries yields a failed result
+   * Errors about the transaction state (e.g. TRANSACTION_CONFLICT) are reported as a TransactionError
+   * @param fn - Callback that executes the queries of the transaction
+   * @param options - Isolation level, access mode and the session to start from
+   * @returns The value returned by the callback, or the error that ended the transaction
+   * @throws Rethrows errors thrown by the callback, after rolling back
+   */
+  async transaction<T>(
+    fn: (tx: Transaction) => Promise<T>,
+    options?: TransactionOptions,
+  ): Promise<Result<T, QueryErrorResult | TransactionError>> {
+    const base = options?.session ?? this.defaultSession;
+    // NONE tells the server that the client supports transactions
+    const session = new Session({
+      headers: { ...base.headers, "x-trino-transaction-id": "NONE" },
+    });
+
+    const started = await this.execute(startTransactionStatement(options), session);
+    if (!started.ok) {
+      return { ok: false, error: toTransactionError(started.error) };
+    }
+    const id = session.transactionId;
+    if (!id || id === "NONE") {
+      return { ok: false, error: { _tag: "TransactionError", reason: "NOT_IN_TRANSACTION" } };
     }
+
+    // First failed result of a query in the transaction
+    let failure: QueryErrorResult | undefined;
+    const executeQuery = this.executeQuery.bind(this);
+    const tx: Transaction = {
+      id,
+      session,
+      async *executeQuery<Row = unknown[]>(
+        query: string | SqlFragment,
+        queryOptions?: Omit<QueryOptions, "session">,
+      ): AsyncGenerator<QueryResult<Row>, void> {
+        for await (const result of executeQuery<Row>(query, { ...queryOptions, session })) {
+          if (!result.ok) {
+            failure ??= result.error;
+          }
+          yield result;
+        }
+      },
+    };
+
+    let value: T;
+    try {
+      value = await fn(tx);
+    } catch (error) {
+      // Best effort, the error of the callback takes precedence
+      await this.execute("ROLLBACK", session);
+      throw error;
+    }
+
+    if (failure) {
+      // Best effort, since Trino may already have aborted the transaction
+      await this.execute("ROLLBACK", session);
+      return { ok: false, error: toTransactionError(failure) };
+    }
+
+    const committed = await this.execute("COMMIT", session);
+    if (!committed.ok) {
+      return { ok: false, error: toTransactionError(committed.error) };
+    }
+    return { ok: true, value };
   }
 
   /**
@@ -158,24 +711,392 @@ export class Trino {
    * @param cancelUri - The partialCancelUri from QueryResults
    * @returns Result indicating success or failure of cancellation
    */
-  async cancelQuery(cancelUri: string): Promise<Result<void, FetchError | HttpError>> {
-    try {
-      const response = await this.fetch(cancelUri, {
-        method: "DELETE",
-        headers: this.buildHeaders({}),
-      });
+  async cancelQuery(
+    cancelUri: string,
+  ): Promise<Result<void, FetchError | HttpError | AuthenticationError | TlsError>> {
+    const fetched = await this.fetchAuthenticated(cancelUri, {
+      method: "DELETE",
+      headers: this.buildHeaders({}),
+    });
+    if (!fetched.ok) {
+      // The request has no signal, so it cannot be aborted
+      const error = fetched.error;
+      return {
+        ok: false,
+        error: error._tag === "AbortError" ? this.createFetchError(error.reason) : error,
+      };
+    }
+
+    // Check if the response is successful (2xx status)
+    const response = fetched.value;
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: this.createHttpError(response),
+      };
+    }
+
+    return { ok: true, value: undefined };
+  }
+
+  /**
+   * Get the version, environment, uptime and startup state of the server (GET /v1/info)
+   * @param options - Optional headers and signal of the request
+   */
+  async getServerInfo(options?: ClusterRequestOptions): Promise<Result<ServerInfo, ClusterError>> {
+    return this.getClusterJson<ServerInfo>("/v1/info", options);
+  }
+
+  /**
+   * List the worker nodes known to the coordinator, with their heartbeat statistics (GET /v1/node)
+   * @param options - Optional headers and signal of the request, and whether to list only failed nodes
+   */
+  async listNodes(
+    options?: ClusterRequestOptions & { failed?: boolean },
+  ): Promise<Result<NodeStats[], ClusterError>> {
+    return this.getClusterJson<NodeStats[]>(
+      options?.failed ? "/v1/node/failed" : "/v1/node",
+      options,
+    );
+  }
+
+  /**
+   * List the queries the coordinator knows about, including recently completed ones (GET /v1/query)
+   * @param options - Filters by state, user and source, and optional headers and signal of the request
+   */
+  async listQueries(
+    options: ListQueriesOptions = {},
+  ): Promise<Result<BasicQueryInfo[], ClusterError>> {
+    // The server filters by a single state, other filters are applied to its response
+    const path =
+      typeof options.state === "string"
+        ? `/v1/query?state=${encodeURIComponent(options.state)}`
+        : "/v1/query";
+    const queries = await this.getClusterJson<BasicQueryInfo[]>(path, options);
+    return queries.ok
+      ? { ok: true, value: queries.value.filter((query) => matchesQueryFilter(query, options)) }
+      : queries;
+  }
+
+  /**
+   * Get detailed information about a query (GET /v1/query/{queryId}), the document behind QueryResults.infoUri
+   * Unknown query IDs yield an HttpError whose response has status 404
+   * @param queryId - ID of the query (QueryResults.id)
+   * @param options - Optional headers and signal of the request
+   */
+  async getQueryInfo(
+    queryId: string,
+    options?: ClusterRequestOptions,
+  ): Promise<Result<QueryInfo, ClusterError>> {
+    return this.getClusterJson<QueryInfo>(`/v1/query/${encodeURIComponent(queryId)}`, options);
+  }
+
+  /**
+   * Kill a query by ID, failing it with ADMINISTRATIVELY_KILLED (PUT /v1/query/{queryId}/killed)
+   * Unlike cancelQuery, this works for any query the user may kill, not only those started by this client
+   * Yields an HttpError whose response has status 404 for unknown queries and 409 for completed queries
+   * @param queryId - ID of the query
+   * @param message - Optional message included in the error of the killed query
+   * @param options - Optional headers and signal of the request
+   */
+  async killQuery(
+    queryId: string,
+    message?: string,
+    options?: ClusterRequestOptions,
+  ): Promise<Result<void, ClusterError>> {
+    const fetched = await this.fetchWithRetry(
+      `${this.baseUrl}/v1/query/${encodeURIComponent(queryId)}/killed`,
+      {
+        method: "PUT",
+        headers: this.buildHeaders({}, options?.headers),
+        body: message ?? "",
+        signal: options?.signal,
+      },
+      RETRYABLE_SUBMIT_STATUSES,
+    );
+    if (!fetched.ok) {
+      return fetched;
+    }
+    await fetched.value.body?.cancel();
+    return { ok: true, value: undefined };
+  }
+
+  /**
+   * List the catalogs of the cluster
+   * @param options - Optional headers, session, signal and timeout of the metadata query
+   * @returns The catalog names, sorted
+   */
+  async listCatalogs(options?: MetadataOptions): Promise<Result<string[], QueryErrorResult>> {
+    return this.queryMetadata(
+      sql`SELECT catalog_name FROM system.metadata.catalogs ORDER BY catalog_name`,
+      (row) => row[0] as string,
+      options,
+    );
+  }
+
+  /**
+   * List the schemas of a catalog
+   * @param catalog - Catalog name
+   * @param options - Optional headers, session, signal and timeout of the metadata query
+   * @returns The schema names, sorted
+   */
+  async listSchemas(
+    catalog: string,
+    options?: MetadataOptions,
+  ): Promise<Result<string[], QueryErrorResult>> {
+    return this.queryMetadata(
+      sql`SELECT schema_name FROM ${sql.id(catalog, "information_schema", "schemata")} ORDER BY schema_name`,
+      (row) => row[0] as string,
+      options,
+    );
+  }
+
+  /**
+   * List the tables and views of a schema
+   * @param catalog - Catalog name
+   * @param schema - Schema name
+   * @param options - Optional headers, session, signal and timeout of the metadata query
+   * @returns The tables, sorted by name
+   */
+  async listTables(
+    catalog: string,
+    schema: string,
+    options?: MetadataOptions,
+  ): Promise<Result<TableInfo[], QueryErrorResult>> {
+    return this.queryMetadata(
+      sql`SELECT table_catalog, table_schema, table_name, table_type
+          FROM ${sql.id(catalog, "information_schema", "tables")}
+          WHERE table_schema = ${schema}
+          ORDER BY table_name`,
+      toTableInfo,
+      options,
+    );
+  }
+
+  /**
+   * Describe the columns of a table or view
+   * @param catalog - Catalog name
+   * @param schema - Schema name
+   * @param table - Table or view name
+   * @param options - Optional headers, session, signal and timeout of the metadata queries
+   * @returns The columns in table order and the table comment, or undefined if the table does not exist
+   */
+  async describeTable(
+    catalog: string,
+    schema: string,
+    table: string,
+    options?: MetadataOptions,
+  ): Promise<Result<TableDescription | undefined, QueryErrorResult>> {
+    const columns = await this.queryMetadata(
+      sql`SELECT column_name, type_name, is_nullable, remarks, ordinal_position
+          FROM system.jdbc.columns
+          WHERE table_cat = ${catalog} AND table_schem = ${schema} AND table_name = ${table}
+          ORDER BY ordinal_position`,
+      toColumnInfo,
+      options,
+    );
+    if (!columns.ok || columns.value.length === 0) {
+      return columns.ok ? { ok: true, value: undefined } : columns;
+    }
+
+    const comment = await this.queryMetadata(
+      sql`SELECT comment FROM system.metadata.table_comments
+          WHERE catalog_name = ${catalog} AND schema_name = ${schema} AND table_name = ${table}`,
+      (row) => row[0] as string | null,
+      options,
+    );
+    if (!comment.ok) {
+      return comment;
+    }
+
+    return {
+      ok: true,
+      value: {
+        catalog,
+        schema,
+        name: table,
+        comment: comment.value[0] ?? undefined,
+        columns: columns.value,
+      },
+    };
+  }
+
+  /**
+   * List the views of a schema, with their definitions
+   * @param catalog - Catalog name
+   * @param schema - Schema name
+   * @param options - Optional headers, session, signal and timeout of the metadata query
+   * @returns The views, sorted by name
+   */
+  async listViews(
+    catalog: string,
+    schema: string,
+    options?: MetadataOptions,
+  ): Promise<Result<ViewInfo[], QueryErrorResult>> {
+    return this.queryMetadata(
+      sql`SELECT table_catalog, table_schema, table_name, view_definition
+          FROM ${sql.id(catalog, "information_schema", "views")}
+          WHERE table_schema = ${schema}
+          ORDER BY table_name`,
+      toViewInfo,
+      options,
+    );
+  }
+
+  /**
+   * List the materialized views of a schema
+   * @param catalog - Catalog name
+   * @param schema - Schema name
+   * @param options - Optional headers, session, signal and timeout of the metadata query
+   * @returns The materialized views, sorted by name
+   */
+  async listMaterializedViews(
+    catalog: string,
+    schema: string,
+    options?: MetadataOptions,
+  ): Promise<Result<MaterializedViewInfo[], QueryErrorResult>> {
+    return this.queryMetadata(
+      sql`SELECT catalog_name, schema_name, name, storage_catalog, storage_schema, storage_table,
+                 freshness, comment, definition
+          FROM system.metadata.materialized_views
+          WHERE catalog_name = ${catalog} AND schema_name = ${schema}
+          ORDER BY name`,
+      toMaterializedViewInfo,
+      options,
+    );
+  }
 
-      // Check if the response is successful (2xx status)
-      if (!response.ok) {
-        return {
-          ok: false,
-          error: this.createHttpError(response),
+  /**
+   * List functions, with one entry per signature
+   * @param catalog - Catalog of the functions (default: the built-in and global functions)
+   * @param schema - Schema of the functions, required with a catalog
+   * @param options - Optional headers, session, signal and timeout of the metadata query
+   * @returns The functions, in the order of SHOW FUNCTIONS
+   */
+  async listFunctions(
+    catalog?: string,
+    schema?: string,
+    options?: MetadataOptions,
+  ): Promise<Result<FunctionInfo[], QueryErrorResult>> {
+    return this.queryMetadata(
+      catalog !== undefined && schema !== undefined
+        ? sql`SHOW FUNCTIONS FROM ${sql.id(catalog, schema)}`
+        : sql`SHOW FUNCTIONS`,
+      toFunctionInfo,
+      options,
+    );
+  }
+
+  /**
+   * Get the plan of a query with EXPLAIN, parsed into a typed plan tree
+   * Logical, distributed and IO plans are requested with FORMAT JSON; EXPLAIN ANALYZE, which executes the
+   * query, only has a text output that is parsed into fragments (see parseTextPlan)
+   * A plan that cannot be parsed yields a ParseError
+   * @param query - Query to explain
+   * @param options - Kind of plan, analyze, and optional headers, session, signal and timeout of the EXPLAIN query
+   * @example
+   * const plan = await client.explain("SELECT * FROM nation, region", { type: "distributed" });
+   * if (plan.ok) console.log(findCrossJoins(plan.value).length, findFullTableScans(plan.value).length);
+   */
+  async explain<Type extends ExplainType = "logical">(
+    query: string | SqlFragment,
+    options: ExplainOptions<Type> = {},
+  ): Promise<Result<ExplainResults[Type], QueryErrorResult | ParseError>> {
+    const { type: requested, analyze, verbose, ...metadataOptions } = options;
+    const type: ExplainType = requested ?? "logical";
+    const statement = query instanceof SqlFragment ? query : sql.raw(query);
+    const explain = analyze
+      ? sql`EXPLAIN ANALYZE ${sql.raw(verbose ? "VERBOSE " : "")}${statement}`
+      : {
+          logical: sql`EXPLAIN (FORMAT JSON) ${statement}`,
+          distributed: sql`EXPLAIN (TYPE DISTRIBUTED, FORMAT JSON) ${statement}`,
+          io: sql`EXPLAIN (TYPE IO, FORMAT JSON) ${statement}`,
+          validate: sql`EXPLAIN (TYPE VALIDATE) ${statement}`,
+        }[type];
+
+    const rows = await this.queryMetadata(explain, (row) => row[0], metadataOptions);
+    if (!rows.ok) {
+      return rows;
+    }
+
+    const output = rows.value[0];
+    let plan: ExplainResults[ExplainType];
+    try {
+      if (analyze) {
+        plan = parseTextPlan(String(output));
+      } else if (type === "validate") {
+        plan = { type: "validate", valid: output === true };
+      } else {
+        const parse = {
+          logical: parseLogicalPlan,
+          distributed: parseDistributedPlan,
+          io: parseIoPlan,
         };
+        plan = parse[type](String(output));
+      }
+    } catch (error) {
+      return { ok: false, error: this.createParseError(String(output), error) };
+    }
+    return { ok: true, value: plan as ExplainResults[Type] };
+  }
+
+  /**
+   * Execute a statement to completion, discarding its rows
+   */
+  private async execute(query: string, session: Session): Promise<Result<void, QueryErrorResult>> {
+    for await (const result of this.executeQuery(query, { session })) {
+      if (!result.ok) {
+        return result;
       }
+    }
+    return { ok: true, value: undefined };
+  }
+
+  /**
+   * Run a metadata query and convert its raw rows
+   */
+  private async queryMetadata<T>(
+    query: SqlFragment,
+    toValue: (row: unknown[]) => T,
+    options?: MetadataOptions,
+  ): Promise<Result<T[], QueryErrorResult>> {
+    const values: T[] = [];
+    for await (const result of this.executeQuery(query, {
+      ...options,
+      decode: false,
+      rowFormat: "array",
+    })) {
+      if (!result.ok) {
+        return result;
+      }
+      for (const row of result.value.data ?? []) {
+        values.push(toValue(row));
+      }
+    }
+    return { ok: true, value: values };
+  }
 
-      return { ok: true, value: undefined };
+  /**
+   * GET a JSON document from a cluster REST endpoint, retrying as for nextUri polling
+   */
+  private async getClusterJson<T>(
+    path: string,
+    options?: ClusterRequestOptions,
+  ): Promise<Result<T, ClusterError>> {
+    const signal = options?.signal;
+    const fetched = await this.fetchWithRetry(
+      `${this.baseUrl}${path}`,
+      { method: "GET", headers: this.buildHeaders({}, options?.headers), signal },
+      RETRYABLE_POLL_STATUSES,
+    );
+    if (!fetched.ok) {
+      return fetched;
+    }
+
+    try {
+      return { ok: true, value: (await fetched.value.json()) as T };
     } catch (error) {
-      return { ok: false, error: this.createFetchError(error) };
+      return { ok: false, error: this.createResponseError(error, signal) };
     }
   }
 
@@ -193,8 +1114,9 @@ export class Trino {
     };
 
     // Add authentication header if configured
-    if (this.auth) {
-      headers["Authorization"] = this.getAuthorizationHeader();
+    const authorization = this.getAuthorizationHeader();
+    if (authorization) {
+      headers["Authorization"] = authorization;
     }
 
     // Filter out undefined values
@@ -204,81 +1126,163 @@ export class Trino {
   }
 
   /**
-   * Update session headers based on response headers
+   * Render query parameters or interpolated sql values as SQL literals
    */
-  private updateSessionHeaders(
-    sessionHeaders: ClientRequestHeaders,
-    responseHeaders: Headers,
-  ): ClientRequestHeaders {
-    const updates: ClientResponseHeaders = {};
+  private renderParameters(params: readonly QueryParameter[]): Result<string[], ParameterError> {
+    const literals: string[] = [];
+    for (const [index, param] of params.entries()) {
+      try {
+        literals.push(renderLiteral(param));
+      } catch (error) {
+        return { ok: false, error: this.createParameterError(index, error) };
+      }
+    }
+    return { ok: true, value: literals };
+  }
 
-    // Headers API returns lowercase header names
-    responseHeaders.forEach((value, key) => {
-      updates[key as keyof ClientResponseHeaders] = value;
-    });
+  /**
+   * Parse a QueryResults response body
+   * When lossless is set, integers beyond Number.MAX_SAFE_INTEGER are parsed as BigInt
+   */
+  private async parseResults(response: Response, lossless: boolean): Promise<QueryResults> {
+    if (!lossless) {
+      return (await response.json()) as QueryResults;
+    }
 
-    const newHeaders: ClientRequestHeaders = { ...sessionHeaders };
+    return this.parseJson(await response.text(), lossless) as QueryResults;
+  }
 
-    // Process response headers to update session state
-    if (updates["x-trino-set-catalog"]) {
-      newHeaders["x-trino-catalog"] = updates["x-trino-set-catalog"];
-    }
-    if (updates["x-trino-set-schema"]) {
-      newHeaders["x-trino-schema"] = updates["x-trino-set-schema"];
-    }
-    if (updates["x-trino-set-path"]) {
-      newHeaders["x-trino-path"] = updates["x-trino-set-path"];
-    }
-    if (updates["x-trino-set-session"]) {
-      const currentSession = newHeaders["x-trino-session"] || "";
-      const sessions = currentSession ? currentSession.split(",") : [];
-      sessions.push(updates["x-trino-set-session"]);
-      newHeaders["x-trino-session"] = sessions.join(",");
-    }
-    if (updates["x-trino-clear-session"]) {
-      const currentSession = newHeaders["x-trino-session"] || "";
-      const sessions = currentSession
-        .split(",")
-        .filter((s) => !s.startsWith(`${updates["x-trino-clear-session"]}=`));
-      newHeaders["x-trino-session"] = sessions.join(",") || undefined;
-    }
-    if (updates["x-trino-set-role"]) {
-      newHeaders["x-trino-role"] = updates["x-trino-set-role"];
+  /**
+   * Parse JSON text, optionally keeping integers beyond Number.MAX_SAFE_INTEGER lossless
+   */
+  private parseJson(text: string, lossless: boolean): unknown {
+    return lossless ? parseLosslessJson(text) : JSON.parse(text);
+  }
+
+  /**
+   * Create a function that decodes and reshapes raw rows according to the query options
+   * Returns undefined when rows are passed through unchanged
+   */
+  private createRowMapper(
+    columns: Column[],
+    decodeOptions?: DecodeOptions,
+    rowFormat?: QueryOptions["rowFormat"],
+  ): ((row: unknown[]) => unknown) | undefined {
+    const decodeRow = decodeOptions ? createRowDecoder(columns, decodeOptions) : undefined;
+
+    if (rowFormat !== "object") {
+      return decodeRow;
     }
-    if (updates["x-trino-added-prepare"]) {
-      const currentPrepared = newHeaders["x-trino-prepared-statement"] || "";
-      const prepared = currentPrepared ? currentPrepared.split(",") : [];
-      prepared.push(updates["x-trino-added-prepare"]);
-      newHeaders["x-trino-prepared-statement"] = prepared.join(",");
+
+    const keys = columnKeys(columns);
+    return (row) => toRowObject(decodeRow ? decodeRow(row) : row, keys);
+  }
+
+  /**
+   * Attach the data rows of a page, mapped if a row mapper is available
+   */
+  private mapData<Row>(
+    result: Omit<QueryResults, "error" | "data">,
+    data: QueryData | undefined,
+    mapRow?: (row: unknown[]) => unknown,
+  ): QuerySuccessResult<Row> {
+    if (data === undefined) {
+      return result;
     }
-    if (updates["x-trino-deallocated-prepare"]) {
-      const currentPrepared = newHeaders["x-trino-prepared-statement"] || "";
-      const prepared = currentPrepared
-        .split(",")
-        .filter((s) => !s.startsWith(`${updates["x-trino-deallocated-prepare"]}=`));
-      newHeaders["x-trino-prepared-statement"] = prepared.join(",") || undefined;
+    if (!mapRow || !data) {
+      return { ...result, data: data as Row[] | null };
     }
-    if (updates["x-trino-started-transaction-id"]) {
-      newHeaders["x-trino-transaction-id"] = updates["x-trino-started-transaction-id"];
+    return { ...result, data: data.map(mapRow) as Row[] };
+  }
+
+  /**
+   * Get the request headers negotiating the spooled protocol, if enabled
+   */
+  private spoolingHeaders(): ClientRequestHeaders {
+    if (!this.spooling) {
+      return {};
     }
-    if (updates["x-trino-clear-transaction-id"]) {
-      delete newHeaders["x-trino-transaction-id"];
+    return {
+      "x-trino-query-data-encoding": requestedEncodings(
+        this.spooling === true ? undefined : this.spooling,
+      ),
+    };
+  }
+
+  /**
+   * Resolve the rows of a page, downloading and decoding spooled segments if needed
+   * Spooled segments are acknowledged once downloaded so the server can release them
+   * Segment downloads and acknowledgements only carry the headers of the segment, not the credentials of the
+   * client, since their URIs can point to storage that rejects other authorization (e.g., presigned URIs)
+   */
+  private async loadData(
+    data: QueryResults["data"],
+    lossless: boolean,
+    signal?: AbortSignal,
+  ): Promise<
+    Result<
+      QueryData | undefined,
+      FetchError | HttpError | AbortError | AuthenticationError | TlsError
+    >
+  > {
+    if (!isEncodedQueryData(data)) {
+      return { ok: true, value: data };
     }
-    if (updates["x-trino-set-authorization-user"]) {
-      newHeaders["x-trino-user"] = updates["x-trino-set-authorization-user"];
-      // Keep original user if setting authorization
-      if (!newHeaders["x-trino-original-user"] && this.defaultHeaders["x-trino-user"]) {
-        newHeaders["x-trino-original-user"] = this.defaultHeaders["x-trino-user"];
+
+    const decompressors = segmentDecompressors(
+      this.spooling === true ? undefined : this.spooling || undefined,
+    );
+    const parse = (text: string) => this.parseJson(text, lossless);
+    const segments = [...data.segments].sort((a, b) => a.metadata.rowOffset - b.metadata.rowOffset);
+    const rows: unknown[][] = [];
+
+    for (const segment of segments) {
+      let bytes: Uint8Array;
+      if (segment.type === "inline") {
+        bytes = Buffer.from(segment.data, "base64");
+      } else {
+        const headers = Object.fromEntries(
+          Object.entries(segment.headers ?? {}).map(([name, values]) => [name, values.join(",")]),
+        );
+        const response = await this.fetchWithRetry(
+          segment.uri,
+          { method: "GET", headers, signal },
+          RETRYABLE_POLL_STATUSES,
+          false,
+        );
+        if (!response.ok) {
+          return response;
+        }
+
+        try {
+          bytes = new Uint8Array(await response.value.arrayBuffer());
+        } catch (error) {
+          return { ok: false, error: this.createResponseError(error, signal) };
+        }
+
+        if (segment.ackUri) {
+          // Acknowledgement is best effort; the server eventually removes unacknowledged segments
+          this.fetchWithRetry(
+            segment.ackUri,
+            { method: "GET", headers },
+            RETRYABLE_POLL_STATUSES,
+            false,
+          )
+            .then((acked) => (acked.ok ? acked.value.body?.cancel() : undefined))
+            .catch(() => {});
+        }
       }
-    }
-    if (updates["x-trino-reset-authorization-user"]) {
-      if (newHeaders["x-trino-original-user"]) {
-        newHeaders["x-trino-user"] = newHeaders["x-trino-original-user"];
-        delete newHeaders["x-trino-original-user"];
+
+      try {
+        rows.push(
+          ...(await decodeSegment(bytes, data.encoding, segment.metadata, decompressors, parse)),
+        );
+      } catch (error) {
+        return { ok: false, error: this.createFetchError(error) };
       }
     }
 
-    return newHeaders;
+    return { ok: true, value: rows };
   }
 
   /**
@@ -295,16 +1299,246 @@ export class Trino {
       return `Basic ${encoded}`;
     } else if (this.auth.type === "bearer") {
       return `Bearer ${this.auth.token}`;
+    } else if (this.auth.type === "oauth2" && this.oauth2Token) {
+      return `Bearer ${this.oauth2Token}`;
     }
 
     return "";
   }
 
   /**
-   * Wrapper around fetch for easier mocking/testing
+   * Fetch with protocol-compliant retries for the given response statuses
+   * Network failures are not retried, since the request may have reached the server
+   * @param authenticated - Send the credentials of the auth configuration (false for spooled segments)
+   */
+  private async fetchWithRetry(
+    url: string,
+    init: RequestInit,
+    retryableStatuses: ReadonlySet<number>,
+    authenticated = true,
+  ): Promise<
+    Result<Response, FetchError | HttpError | AbortError | AuthenticationError | TlsError>
+  > {
+    const signal = init.signal ?? undefined;
+
+    for (let retries = 0; ; retries++) {
+      const fetched = authenticated
+        ? await this.fetchAuthenticated(url, init)
+        : await this.fetch(url, init).then(
+            (response) => ({ ok: true, value: response }) as const,
+            (error: unknown) =>
+              ({ ok: false, error: this.createResponseError(error, signal) }) as const,
+          );
+      if (!fetched.ok) {
+        return fetched;
+      }
+      const response = fetched.value;
+
+      if (response.ok) {
+        return { ok: true, value: response };
+      }
+
+      if (!retryableStatuses.has(response.status) || retries >= this.retry.maxRetries) {
+        return { ok: false, error: this.createHttpError(response, retries) };
+      }
+
+      // Release the connection before waiting
+      await response.body?.cancel();
+      await this.sleep(
+        retryDelay(retries, this.retry, response.headers.get("retry-after")),
+        signal,
+      );
+      if (signal?.aborted) {
+        return { ok: false, error: this.createAbortError(signal) };
+      }
+    }
+  }
+
+  /**
+   * Send a request with the credentials of the auth configuration
+   * When the server rejects the credentials with 401, new ones are obtained (from the token provider, or through
+   * the OAuth2 flow the server challenges with) and the request is replayed once
+   */
+  private async fetchAuthenticated(
+    url: string,
+    init: RequestInit,
+  ): Promise<Result<Response, FetchError | AbortError | AuthenticationError | TlsError>> {
+    const signal = init.signal ?? undefined;
+
+    let token: string | undefined;
+    if (this.tokenCache) {
+      const provided = await this.provideToken();
+      if (!provided.ok) {
+        return provided;
+      }
+      token = provided.value;
+    }
+
+    for (let replayed = false; ; replayed = true) {
+      let response: Response;
+      try {
+        response = await this.fetch(url, {
+          ...init,
+          headers: token
+            ? { ...(init.headers as Record<string, string>), Authorization: `Bearer ${token}` }
+            : init.headers,
+        });
+      } catch (error) {
+        return { ok: false, error: this.createResponseError(error, signal) };
+      }
+
+      if (response.status !== 401 || replayed) {
+        return { ok: true, value: response };
+      }
+
+      if (this.tokenCache) {
+        await response.body?.cancel();
+        const provided = await this.provideToken(token);
+        if (!provided.ok) {
+          return provided;
+        }
+        token = provided.value;
+        continue;
+      }
+
+      const challenge =
+        this.auth?.type === "oauth2"
+          ? parseOAuth2Challenge(response.headers.get("www-authenticate"))
+          : undefined;
+      if (!challenge) {
+        return { ok: true, value: response };
+      }
+      await response.body?.cancel();
+      const authenticated = await this.authenticate(challenge, signal);
+      if (!authenticated.ok) {
+        return authenticated;
+      }
+      token = authenticated.value;
+    }
+  }
+
+  /**
+   * Get a token from the token provider
+   * @param rejected - Token the server rejected, which forces a refresh
+   */
+  private async provideToken(rejected?: string): Promise<Result<string, AuthenticationError>> {
+    try {
+      return { ok: true, value: await this.tokenCache!.get(rejected) };
+    } catch (error) {
+      return { ok: false, error: this.createAuthenticationError(error) };
+    }
+  }
+
+  /**
+   * Obtain a token through the OAuth2 flow described by a challenge
+   * Concurrent challenges share one flow, while each request can still be aborted by its own signal
+   * The flow stops polling once every request waiting for it is aborted
+   */
+  private authenticate(
+    challenge: OAuth2Challenge,
+    signal?: AbortSignal,
+  ): Promise<Result<string, AuthenticationError | AbortError>> {
+    if (!this.pendingOAuth2Token) {
+      const controller = new AbortController();
+      const started = {
+        result: this.requestOAuth2Token(
+          challenge,
+          this.auth as OAuth2Auth,
+          controller.signal,
+        ).finally(() => {
+          if (this.pendingOAuth2Token === started) {
+            this.pendingOAuth2Token = undefined;
+          }
+        }),
+        controller,
+        waiters: 0,
+      };
+      this.pendingOAuth2Token = started;
+    }
+    const flow = this.pendingOAuth2Token;
+    flow.waiters++;
+    let waiting = true;
+    const leave = () => {
+      if (!waiting) {
+        return;
+      }
+      waiting = false;
+      // Stop polling once no request waits for the token anymore
+      if (--flow.waiters === 0) {
+        if (this.pendingOAuth2Token === flow) {
+          this.pendingOAuth2Token = undefined;
+        }
+        flow.controller.abort();
+      }
+    };
+    if (!signal) {
+      return flow.result.finally(leave);
+    }
+
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        leave();
+        resolve({ ok: false, error: this.createAbortError(signal) });
+      };
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener("abort", onAbort, { once: true });
+      void flow.result.then((result) => {
+        signal.removeEventListener("abort", onAbort);
+        leave();
+        resolve(result);
+      });
+    });
+  }
+
+  /**
+   * Send the user to the identity provider and wait for the server to issue a token, caching it
+   * @param signal - Stops polling the token server
+   */
+  private async requestOAuth2Token(
+    challenge: OAuth2Challenge,
+    auth: OAuth2Auth,
+    signal: AbortSignal,
+  ): Promise<Result<string, AuthenticationError>> {
+    try {
+      if (challenge.redirectUri) {
+        await auth.onRedirect(challenge.redirectUri);
+      }
+      const token = await pollToken(challenge.tokenUri, (url, init) => this.fetch(url, init), {
+        timeoutMs: auth.timeoutMs ?? DEFAULT_OAUTH2_TIMEOUT_MS,
+        signal,
+      });
+      this.oauth2Token = token;
+      return { ok: true, value: token };
+    } catch (error) {
+      return { ok: false, error: this.createAuthenticationError(error) };
+    }
+  }
+
+  /**
+   * Wait for the given number of milliseconds, resolving early if the signal is aborted
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Send a request through the interceptors and the transport
    */
   private fetch(url: string, init?: RequestInit): Promise<Response> {
-    return fetch(url, { ...init });
+    return this.transport(url, { ...init });
   }
 
   /**
@@ -317,13 +1551,119 @@ export class Trino {
     };
   }
 
+  /**
+   * Create a branded AbortError from an aborted signal
+   */
+  private createAbortError(signal: AbortSignal): AbortError {
+    return {
+      _tag: "AbortError",
+      reason: signal.reason,
+    };
+  }
+
+  /**
+   * Create a branded TimeoutError for a query that exceeded its deadline
+   */
+  private createTimeoutError(timeoutMs: number, stats?: StatementStats): TimeoutError {
+    return {
+      _tag: "TimeoutError",
+      timeoutMs,
+      stats,
+    };
+  }
+
+  /**
+   * Create a branded DecodeError from an error thrown while decoding rows
+   */
+  private createDecodeError(error: unknown): DecodeError {
+    return {
+      _tag: "DecodeError",
+      error,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  /**
+   * Create a branded ParseError from a plan and the error its parser threw
+   */
+  private createParseError(text: string, error: unknown): ParseError {
+    return {
+      _tag: "ParseError",
+      text,
+      error,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  /**
+   * Create a branded LimitExceededError for a collected query that exceeded a limit
+   */
+  private createLimitExceededError(
+    limit: LimitExceededError["limit"],
+    max: number,
+  ): LimitExceededError {
+    return {
+      _tag: "LimitExceededError",
+      limit,
+      max,
+    };
+  }
+
+  /**
+   * Create a branded AuthenticationError for a failed OAuth2 flow
+   */
+  private createAuthenticationError(error: unknown): AuthenticationError {
+    return {
+      _tag: "AuthenticationError",
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  /**
+   * Create a branded ParameterError for a query parameter that cannot be rendered as a literal
+   */
+  private createParameterError(index: number, error: unknown): ParameterError {
+    return {
+      _tag: "ParameterError",
+      index,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  /**
+   * Create the error for a failed request or response body read,
+   * distinguishing aborts from network failures
+   */
+  private createResponseError(
+    error: unknown,
+    signal?: AbortSignal,
+  ): FetchError | AbortError | TlsError {
+    if (signal?.aborted) {
+      return this.createAbortError(signal);
+    }
+    const code = tlsErrorCode(error);
+    return code ? this.createTlsError(code, error) : this.createFetchError(error);
+  }
+
+  /**
+   * Create a branded TlsError for a failed TLS handshake
+   */
+  private createTlsError(code: string, error: unknown): TlsError {
+    return {
+      _tag: "TlsError",
+      code,
+      error,
+    };
+  }
+
   /**
    * Create a branded HttpError from a non-2xx response
    */
-  private createHttpError(response: Response): HttpError {
+  private createHttpError(response: Response, retries?: number): HttpError {
     return {
       _tag: "HttpError",
       response,
+      ...(retries !== undefined && { retries }),
     };
   }
 
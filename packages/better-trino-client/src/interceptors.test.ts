@@ -0,0 +1,198 @@
+/**
+ * Tests for the pluggable transport and interceptors
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from "bun:test";
+import { Trino } from "./index.js";
+import { intercept, type FetchFunction } from "./interceptors.js";
+import type { QueryResults } from "./protocol.js";
+import { startStubServer } from "./test-server.js";
+
+describe("intercept", () => {
+  const transport: FetchFunction = async (url, init) =>
+    Response.json({ url, method: init.method, headers: init.headers, body: init.body });
+
+  test("should return the transport when there are no interceptors", () => {
+    expect(intercept(transport, [])).toBe(transport);
+  });
+
+  test("should run onRequest hooks in order", async () => {
+    const fetch = intercept(transport, [
+      {
+        onRequest: (request) => {
+          request.headers.set("x-first", "1");
+        },
+      },
+      {
+        onRequest: (request) => ({
+          ...request,
+          url: request.url.replace("internal", "gateway"),
+          headers: new Headers({ "x-second": request.headers.get("x-first") ?? "" }),
+        }),
+      },
+    ]);
+
+    const response = await fetch("http://internal/v1/statement", {
+      method: "POST",
+      headers: { "x-trino-user": "test" },
+      body: "SELECT 1",
+    });
+    expect(await response.json()).toEqual({
+      url: "http://gateway/v1/statement",
+      method: "POST",
+      headers: { "x-second": "1" },
+      body: "SELECT 1",
+    });
+  });
+
+  test("should let onResponse hooks replace the response", async () => {
+    const seen: number[] = [];
+    const fetch = intercept(transport, [
+      { onResponse: (response) => void seen.push(response.status) },
+      { onResponse: () => new Response("replaced", { status: 202 }) },
+      { onResponse: (response) => void seen.push(response.status) },
+    ]);
+
+    const response = await fetch("http://trino/v1/info", {});
+    expect(response.status).toBe(202);
+    expect(await response.text()).toBe("replaced");
+    expect(seen).toEqual([200, 202]);
+  });
+
+  test("should recover from transport errors with onError", async () => {
+    const failing: FetchFunction = () => Promise.reject(new Error("connection refused"));
+    const errors: unknown[] = [];
+    const fetch = intercept(failing, [
+      { onError: (error) => void errors.push(error) },
+      { onError: () => new Response("fallback") },
+      { onResponse: () => new Response("after recovery") },
+    ]);
+
+    const response = await fetch("http://trino/v1/info", {});
+    expect(await response.text()).toBe("after recovery");
+    expect(errors).toEqual([new Error("connection refused")]);
+  });
+
+  test("should rethrow transport errors no hook recovers from", async () => {
+    const failing: FetchFunction = () => Promise.reject(new Error("connection refused"));
+    const fetch = intercept(failing, [{ onError: () => undefined }]);
+    await expect(fetch("http://trino/v1/info", {})).rejects.toThrow("connection refused");
+  });
+});
+
+describe("transport and interceptors", () => {
+  // The coordinator reports its internal hostname, which is unreachable from the client
+  const server = startStubServer({
+    pages: [
+      {
+        infoUri: "http://coordinator.internal:8080/ui",
+        nextUri: "http://coordinator.internal:8080/v1/statement/executing/query_1/1",
+        stats: { state: "QUEUED" },
+      },
+      { infoUri: "http://coordinator.internal:8080/ui", data: [[1]] },
+    ],
+  });
+  const requests = () =>
+    server.requests.map(
+      (request) => `${request.method} ${request.path} ${request.headers.get("traceparent") ?? "-"}`,
+    );
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  async function collect(client: Trino) {
+    const results = [];
+    for await (const result of client.executeQuery("SELECT 1")) {
+      results.push(result);
+    }
+    return results;
+  }
+
+  test("should rewrite nextUri hosts and inject headers", async () => {
+    const client = new Trino({
+      baseUrl: server.url,
+      retry: false,
+      interceptors: [
+        {
+          onRequest: (request) => {
+            request.url = request.url.replace("http://coordinator.internal:8080/", server.url);
+            request.headers.set("traceparent", "00-trace-span-01");
+          },
+        },
+      ],
+    });
+
+    const results = await collect(client);
+    expect(results.map((r) => r.ok)).toEqual([true, true]);
+    expect(requests()).toEqual([
+      "POST /v1/statement 00-trace-span-01",
+      "GET /v1/statement/executing/query_1/1 00-trace-span-01",
+    ]);
+  });
+
+  test("should log raw protocol traffic without consuming responses", async () => {
+    const log: string[] = [];
+    const client = new Trino({
+      baseUrl: server.url,
+      interceptors: [
+        {
+          onRequest: (request) => {
+            request.url = request.url.replace("http://coordinator.internal:8080/", server.url);
+          },
+          onResponse: async (response, request) => {
+            const body = (await response.clone().json()) as QueryResults;
+            log.push(`${request.method} ${response.status} ${body.stats.state}`);
+          },
+        },
+      ],
+    });
+
+    const results = await collect(client);
+    expect(results.map((r) => r.ok)).toEqual([true, true]);
+    expect(log).toEqual(["POST 200 QUEUED", "GET 200 FINISHED"]);
+  });
+
+  test("should send requests through a custom fetch", async () => {
+    const urls: string[] = [];
+    const client = new Trino({
+      baseUrl: "http://gateway.invalid",
+      fetch: (url, init) => {
+        urls.push(url);
+        const target = new URL(url);
+        return fetch(new URL(target.pathname, server.url), init);
+      },
+    });
+
+    const results = await collect(client);
+    expect(results.map((r) => r.ok)).toEqual([true, true]);
+    expect(urls).toEqual([
+      "http://gateway.invalid/v1/statement",
+      "http://coordinator.internal:8080/v1/statement/executing/query_1/1",
+    ]);
+  });
+
+  test("should report errors thrown by interceptors as FetchError", async () => {
+    const client = new Trino({
+      baseUrl: server.url,
+      interceptors: [
+        {
+          onRequest: () => {
+            throw new Error("blocked");
+          },
+        },
+      ],
+    });
+
+    const [result] = await collect(client);
+    expect(result?.ok).toBe(false);
+    if (result && !result.ok) {
+      expect(result.error._tag).toBe("FetchError");
+    }
+    expect(requests()).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Pluggable transport and request/response interceptors
+ * Every HTTP request of the client (statements, nextUri polls, cancellation, spooled segments, OAuth2 token
+ * polling) goes through the interceptor chain and then the transport
+ */
+
+/**
+ * fetch-compatible function that sends the requests of the client
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Request about to be sent, which interceptors can modify in place or replace
+ */
+export interface InterceptedRequest {
+  url: string;
+  method: string;
+  headers: Headers;
+  body?: RequestInit["body"];
+  signal?: AbortSignal;
+}
+
+/**
+ * Hooks around each request
+ * Interceptors run in the order they are configured; a hook that returns nothing keeps the value unchanged
+ *
+ * @example
+ * // Send nextUri polls to the gateway instead of the internal hostname returned by the coordinator
+ * const gateway: Interceptor = {
+ *   onRequest: (request) => {
+ *     request.url = request.url.replace("http://coordinator:8080", "https://trino.example.com");
+ *   },
+ * };
+ */
+export interface Interceptor {
+  /** Called before the request is sent; return a request to replace it */
+  onRequest?: (
+    request: InterceptedRequest,
+  ) => InterceptedRequest | void | Promise<InterceptedRequest | void>;
+  /**
+   * Called with the response, before the client reads it; return a response to replace it
+   * Use response.clone() to read the body without consuming it
+   */
+  onResponse?: (
+    response: Response,
+    request: InterceptedRequest,
+  ) => Response | void | Promise<Response | void>;
+  /**
+   * Called when the transport fails (network error, TLS error, abort); return a response to recover
+   * with it, or throw to replace the error
+   * The recovered response is passed to the onResponse hooks
+   */
+  onError?: (
+    error: unknown,
+    request: InterceptedRequest,
+  ) => Response | void | Promise<Response | void>;
+}
+
+/**
+ * Wrap a transport with interceptors
+ * @param transport - Sends the request once the onRequest hooks have run
+ * @param interceptors - Hooks to run, in order
+ */
+export function intercept(
+  transport: FetchFunction,
+  interceptors: readonly Interceptor[],
+): FetchFunction {
+  if (interceptors.length === 0) {
+    return transport;
+  }
+
+  return async (url, init) => {
+    let request: InterceptedRequest = {
+      url,
+      method: init.method ?? "GET",
+      headers: new Headers(init.headers),
+      body: init.body,
+      signal: init.signal ?? undefined,
+    };
+    for (const interceptor of interceptors) {
+      request = (await interceptor.onRequest?.(request)) ?? request;
+    }
+
+    let response: Response;
+    try {
+      response = await transport(request.url, {
+        method: request.method,
+        // Plain headers, as transports such as node:https do not accept a Headers object
+        headers: Object.fromEntries(request.headers),
+        body: request.body,
+        signal: request.signal,
+      });
+    } catch (error) {
+      response = await recover(error, request, interceptors);
+    }
+
+    for (const interceptor of interceptors) {
+      response = (await interceptor.onResponse?.(response, request)) ?? response;
+    }
+    return response;
+  };
+}
+
+/**
+ * Run the onError hooks until one recovers with a response
+ * @throws The original error if no hook recovers
+ */
+async function recover(
+  error: unknown,
+  request: InterceptedRequest,
+  interceptors: readonly Interceptor[],
+): Promise<Response> {
+  for (const interceptor of interceptors) {
+    const response = await interceptor.onError?.(error, request);
+    if (response) {
+      return response;
+    }
+  }
+  throw error;
+}
@@ -0,0 +1,66 @@
+/**
+ * Tests for SQL literal rendering of query parameters
+ */
+
+import { describe, test, expect } from "bun:test";
+import { renderLiteral } from "./literals.js";
+
+describe("renderLiteral", () => {
+  test("should render scalars", () => {
+    expect(renderLiteral(null)).toBe("NULL");
+    expect(renderLiteral(undefined)).toBe("NULL");
+    expect(renderLiteral(true)).toBe("TRUE");
+    expect(renderLiteral(false)).toBe("FALSE");
+    expect(renderLiteral(42)).toBe("42");
+    expect(renderLiteral(-7)).toBe("(-7)");
+    expect(renderLiteral(-0)).toBe("0");
+    expect(renderLiteral(12345678901234567890n)).toBe("12345678901234567890");
+    expect(renderLiteral(-3n)).toBe("(-3)");
+  });
+
+  test("should keep negative literals a single token after a minus sign", () => {
+    expect(`10-${renderLiteral(-1)}`).toBe("10-(-1)");
+    expect(`10-${renderLiteral(-1n)}`).toBe("10-(-1)");
+    expect(`10-${renderLiteral(Number.NEGATIVE_INFINITY)}`).toBe("10-(-infinity())");
+    expect(`10-${renderLiteral(-1.5)}`).toBe("10-DOUBLE '-1.5'");
+  });
+
+  test("should quote strings and escape single quotes", () => {
+    expect(renderLiteral("hello")).toBe("'hello'");
+    expect(renderLiteral("it's")).toBe("'it''s'");
+    expect(renderLiteral("'; DROP TABLE t; --")).toBe("'''; DROP TABLE t; --'");
+  });
+
+  test("should render non-integer numbers as doubles", () => {
+    expect(renderLiteral(1.5)).toBe("DOUBLE '1.5'");
+    expect(renderLiteral(1e21)).toBe("DOUBLE '1e+21'");
+    expect(renderLiteral(Number.NaN)).toBe("nan()");
+    expect(renderLiteral(Number.POSITIVE_INFINITY)).toBe("infinity()");
+    expect(renderLiteral(Number.NEGATIVE_INFINITY)).toBe("(-infinity())");
+  });
+
+  test("should render dates as UTC timestamps", () => {
+    expect(renderLiteral(new Date("2024-01-15T10:30:00.123Z"))).toBe(
+      "TIMESTAMP '2024-01-15 10:30:00.123'",
+    );
+    expect(() => renderLiteral(new Date(Number.NaN))).toThrow("Invalid Date");
+  });
+
+  test("should render binary values as hex literals", () => {
+    expect(renderLiteral(new Uint8Array([0, 15, 255]))).toBe("X'000fff'");
+  });
+
+  test("should render decimals", () => {
+    expect(renderLiteral({ _tag: "Decimal", value: "-123.45" })).toBe("DECIMAL '-123.45'");
+    expect(() => renderLiteral({ _tag: "Decimal", value: "1' OR '1" })).toThrow(/Invalid decimal/);
+  });
+
+  test("should render nested arrays", () => {
+    expect(renderLiteral([1, "a", null])).toBe("ARRAY[1, 'a', NULL]");
+    expect(renderLiteral([[1], []])).toBe("ARRAY[ARRAY[1], ARRAY[]]");
+  });
+
+  test("should reject unsupported values", () => {
+    expect(() => renderLiteral({} as never)).toThrow(/Unsupported parameter type/);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Rendering of JS values as Trino SQL literals
+ * Used to bind query parameters to the placeholders of a prepared statement with EXECUTE ... USING
+ *
+ * @see https://trino.io/docs/current/sql/execute.html
+ * @see https://trino.io/docs/current/language/types.html
+ */
+
+import type { TrinoDecimal } from "./decode.js";
+
+/**
+ * Value that can be bound to a ? placeholder
+ *
+ * - string → VARCHAR
+ * - number → INTEGER/BIGINT for safe integers, DOUBLE otherwise (including NaN and ±Infinity)
+ * - bigint → BIGINT (or DECIMAL beyond the BIGINT range)
+ * - boolean → BOOLEAN
+ * - Date → TIMESTAMP(3), in UTC (matching how timestamps are decoded)
+ * - Uint8Array → VARBINARY
+ * - TrinoDecimal → DECIMAL
+ * - arrays → ARRAY
+ * - null and undefined → NULL
+ */
+export type QueryParameter =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Date
+  | Uint8Array
+  | TrinoDecimal
+  | null
+  | undefined
+  | readonly QueryParameter[];
+
+/**
+ * Render a value as a Trino SQL literal
+ * @throws TypeError if the value cannot be represented as a literal (e.g., an invalid Date)
+ */
+export function renderLiteral(value: QueryParameter): string {
+  if (value === null || value === undefined) {
+    return "NULL";
+  }
+
+  switch (typeof value) {
+    case "string":
+      return quote(value);
+    case "number":
+      return renderNumber(value);
+    case "bigint":
+      return value < 0n ? `(${value})` : value.toString();
+    case "boolean":
+      return value ? "TRUE" : "FALSE";
+  }
+
+  if (Array.isArray(value)) {
+    return `ARRAY[${value.map(renderLiteral).join(", ")}]`;
+  }
+  if (value instanceof Date) {
+    return `TIMESTAMP ${quote(formatTimestamp(value))}`;
+  }
+  if (value instanceof Uint8Array) {
+    return `X'${Buffer.from(value).toString("hex")}'`;
+  }
+  if (isDecimal(value)) {
+    if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(value.value)) {
+      throw new TypeError(`Invalid decimal value: ${value.value}`);
+    }
+    return `DECIMAL ${quote(value.value)}`;
+  }
+
+  throw new TypeError(`Unsupported parameter type: ${Object.prototype.toString.call(value)}`);
+}
+
+/**
+ * Quote a string as a SQL string literal, doubling embedded single quotes
+ */
+function quote(value: string): string {
+  return `'${value.replaceAll("'", "''")}'`;
+}
+
+/**
+ * Render a number literal, with negative values in parentheses so a "-" before the literal cannot turn into
+ * a "--" comment
+ */
+function renderNumber(value: number): string {
+  if (Number.isNaN(value)) {
+    return "nan()";
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "infinity()" : "(-infinity())";
+  }
+  if (Number.isSafeInteger(value)) {
+    return value < 0 ? `(${value})` : String(value);
+  }
+  // A plain fractional literal would be parsed as DECIMAL, so the type is made explicit
+  return `DOUBLE ${quote(String(value))}`;
+}
+
+/**
+ * Format a Date as a Trino timestamp literal value in UTC (e.g., "2024-01-15 10:30:00.000")
+ */
+function formatTimestamp(date: Date): string {
+  if (Number.isNaN(date.getTime())) {
+    throw new TypeError("Invalid Date");
+  }
+  const year = date.getUTCFullYear();
+  if (year < 0 || year > 9999) {
+    throw new TypeError(`Date out of range: ${date.toISOString()}`);
+  }
+  return date.toISOString().replace("T", " ").replace("Z", "");
+}
+
+function isDecimal(value: object): value is TrinoDecimal {
+  return "_tag" in value && value._tag === "Decimal";
+}
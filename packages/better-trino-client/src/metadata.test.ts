@@ -0,0 +1,158 @@
+/**
+ * Tests for the catalog metadata methods
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from "bun:test";
+import { Trino } from "./index.js";
+import { startStubServer } from "./test-server.js";
+
+describe("metadata", () => {
+  // Rows returned for queries containing the key
+  const responses: Record<string, unknown[][]> = {
+    "system.metadata.catalogs": [["system"], ["tpch"]],
+    '"tpch"."information_schema"."schemata"': [["information_schema"], ["tiny"]],
+    '"tpch"."information_schema"."tables"': [
+      ["tpch", "tiny", "nation", "BASE TABLE"],
+      ["tpch", "tiny", "nation_view", "VIEW"],
+    ],
+    "system.jdbc.columns": [
+      ["nationkey", "bigint", "NO", null, 1],
+      ["name", "varchar(25)", "YES", "Name of the nation", 2],
+      ["tags", "array(row(key varchar, value double))", "", "", 3],
+    ],
+    "system.metadata.table_comments": [["Nations of the world"]],
+    '"tpch"."information_schema"."views"': [
+      ["tpch", "tiny", "nation_view", "SELECT * FROM nation"],
+    ],
+    "system.metadata.materialized_views": [
+      ["iceberg", "sales", "daily", "iceberg", "sales", "daily$storage", "FRESH", "", "SELECT 1"],
+      ["iceberg", "sales", "weekly", null, null, null, "UNKNOWN", "Weekly totals", "SELECT 2"],
+    ],
+    "SHOW FUNCTIONS": [
+      ["abs", "bigint", "bigint", "scalar", true, "Absolute value"],
+      ["map_agg", "map(K,V)", "K, V", "aggregate", true, ""],
+      ["now", "timestamp(3) with time zone", "", "scalar", false, "Current time"],
+    ],
+  };
+
+  const server = startStubServer({
+    pages: ({ body }) => {
+      const key = Object.keys(responses).find((candidate) => body.includes(candidate));
+      return [{ columns: [], data: key ? responses[key] : [] }];
+    },
+  });
+  const queries = () => server.requests.map((request) => request.body);
+
+  const client = new Trino({ baseUrl: server.url });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  test("should list catalogs and schemas", async () => {
+    expect(await client.listCatalogs()).toEqual({ ok: true, value: ["system", "tpch"] });
+    expect(await client.listSchemas("tpch")).toEqual({
+      ok: true,
+      value: ["information_schema", "tiny"],
+    });
+  });
+
+  test("should list tables with their type", async () => {
+    const tables = await client.listTables("tpch", "tiny");
+    expect(tables).toEqual({
+      ok: true,
+      value: [
+        { catalog: "tpch", schema: "tiny", name: "nation", type: "BASE TABLE" },
+        { catalog: "tpch", schema: "tiny", name: "nation_view", type: "VIEW" },
+      ],
+    });
+    expect(queries()[0]).toContain("WHERE table_schema = 'tiny'");
+  });
+
+  test("should describe a table with parsed column types", async () => {
+    const description = await client.describeTable("tpch", "tiny", "it's");
+    expect(queries()[0]).toContain("table_name = 'it''s'");
+    expect(description.ok).toBe(true);
+    if (!description.ok) return;
+
+    expect(description.value).toMatchObject({
+      catalog: "tpch",
+      schema: "tiny",
+      name: "it's",
+      comment: "Nations of the world",
+    });
+    expect(description.value!.columns).toMatchObject([
+      { name: "nationkey", type: "bigint", nullable: false, comment: undefined, position: 1 },
+      { name: "name", type: "varchar(25)", nullable: true, comment: "Name of the nation" },
+      { name: "tags", nullable: true, comment: undefined, position: 3 },
+    ]);
+    expect(description.value!.columns[2]!.typeSignature).toMatchObject({
+      rawType: "array",
+      arguments: [{ value: { rawType: "row", arguments: [{}, {}] } }],
+    });
+  });
+
+  test("should return undefined for a table without columns", async () => {
+    delete responses["system.jdbc.columns"];
+    expect(await client.describeTable("tpch", "tiny", "missing")).toEqual({
+      ok: true,
+      value: undefined,
+    });
+    expect(queries()).toHaveLength(1);
+  });
+
+  test("should list views and materialized views", async () => {
+    expect(await client.listViews("tpch", "tiny")).toEqual({
+      ok: true,
+      value: [
+        {
+          catalog: "tpch",
+          schema: "tiny",
+          name: "nation_view",
+          definition: "SELECT * FROM nation",
+        },
+      ],
+    });
+
+    const views = await client.listMaterializedViews("iceberg", "sales");
+    expect(views).toEqual({
+      ok: true,
+      value: [
+        {
+          catalog: "iceberg",
+          schema: "sales",
+          name: "daily",
+          storageTable: { catalog: "iceberg", schema: "sales", name: "daily$storage" },
+          freshness: "FRESH",
+          comment: undefined,
+          definition: "SELECT 1",
+        },
+        {
+          catalog: "iceberg",
+          schema: "sales",
+          name: "weekly",
+          storageTable: undefined,
+          freshness: "UNKNOWN",
+          comment: "Weekly totals",
+          definition: "SELECT 2",
+        },
+      ],
+    });
+  });
+
+  test("should list functions with their argument types", async () => {
+    const functions = await client.listFunctions();
+    expect(functions.ok && functions.value.map((f) => [f.name, f.argumentTypes, f.kind])).toEqual([
+      ["abs", ["bigint"], "scalar"],
+      ["map_agg", ["K", "V"], "aggregate"],
+      ["now", [], "scalar"],
+    ]);
+
+    await client.listFunctions("example", "udfs");
+    expect(queries().at(-1)).toBe('SHOW FUNCTIONS FROM "example"."udfs"');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Typed results of the catalog metadata methods of Trino (listCatalogs, describeTable, ...)
+ * The methods query information_schema and the system catalog, and these helpers convert their rows
+ *
+ * @see https://trino.io/docs/current/connector/system.html
+ */
+
+import type { QueryOptions } from "./index.js";
+import type { ClientTypeSignature } from "./protocol.js";
+import { parseTypeSignature, splitTopLevel } from "./signature.js";
+
+/**
+ * Options of the metadata methods
+ */
+export type MetadataOptions = Pick<QueryOptions, "headers" | "session" | "signal" | "timeoutMs">;
+
+/**
+ * Table or view of a schema
+ */
+export interface TableInfo {
+  catalog: string;
+  schema: string;
+  name: string;
+  /** Table type as reported by information_schema.tables (e.g., "BASE TABLE", "VIEW") */
+  type: string;
+}
+
+/**
+ * Column of a table
+ */
+export interface ColumnInfo {
+  name: string;
+  /** Type name (e.g., "varchar(25)", "decimal(12,2)") */
+  type: string;
+  /** Type signature parsed from the type name (see parseTypeSignature) */
+  typeSignature: ClientTypeSignature;
+  nullable: boolean;
+  comment?: string;
+  /** Position of the column in the table, starting at 1 */
+  position: number;
+}
+
+/**
+ * Columns and comment of a table or view
+ */
+export interface TableDescription {
+  catalog: string;
+  schema: string;
+  name: string;
+  comment?: string;
+  columns: ColumnInfo[];
+}
+
+export interface ViewInfo {
+  catalog: string;
+  schema: string;
+  name: string;
+  /** SQL of the view */
+  definition: string;
+}
+
+export interface MaterializedViewInfo {
+  catalog: string;
+  schema: string;
+  name: string;
+  /** Table that stores the data of the materialized view, if the connector uses one */
+  storageTable?: { catalog: string; schema: string; name: string };
+  /** Freshness of the stored data (e.g., "FRESH", "STALE", "UNKNOWN") */
+  freshness?: string;
+  comment?: string;
+  /** SQL of the materialized view */
+  definition: string;
+}
+
+export interface FunctionInfo {
+  name: string;
+  /** Type name of the return value, which may contain type variables (e.g., "array(T)") */
+  returnType: string;
+  /** Type names of the arguments */
+  argumentTypes: string[];
+  /** Function kind (e.g., "scalar", "aggregate", "window", "table") */
+  kind: string;
+  deterministic: boolean;
+  description?: string;
+}
+
+/**
+ * Convert a row of table_catalog, table_schema, table_name, table_type
+ */
+export function toTableInfo(row: unknown[]): TableInfo {
+  const [catalog, schema, name, type] = row as string[];
+  return { catalog: catalog!, schema: schema!, name: name!, type: type! };
+}
+
+/**
+ * Convert a row of system.jdbc.columns: column_name, type_name, is_nullable, remarks, ordinal_position
+ */
+export function toColumnInfo(row: unknown[]): ColumnInfo {
+  const [name, type, nullable, comment, position] = row as [string, string, string, string, number];
+  return {
+    name,
+    type,
+    typeSignature: parseTypeName(type),
+    // Connectors that do not know report an empty string, and columns are nullable unless declared otherwise
+    nullable: nullable !== "NO",
+    comment: comment || undefined,
+    position: Number(position),
+  };
+}
+
+/**
+ * Convert a row of table_catalog, table_schema, table_name, view_definition
+ */
+export function toViewInfo(row: unknown[]): ViewInfo {
+  const [catalog, schema, name, definition] = row as string[];
+  return { catalog: catalog!, schema: schema!, name: name!, definition: definition ?? "" };
+}
+
+/**
+ * Convert a row of system.metadata.materialized_views: catalog_name, schema_name, name, storage_catalog,
+ * storage_schema, storage_table, freshness, comment, definition
+ */
+export function toMaterializedViewInfo(row: unknown[]): MaterializedViewInfo {
+  const [
+    catalog,
+    schema,
+    name,
+    storageCatalog,
+    storageSchema,
+    storageTable,
+    freshness,
+    comment,
+    definition,
+  ] = row as (string | null)[];
+  return {
+    catalog: catalog!,
+    schema: schema!,
+    name: name!,
+    storageTable:
+      storageCatalog && storageSchema && storageTable
+        ? { catalog: storageCatalog, schema: storageSchema, name: storageTable }
+        : undefined,
+    freshness: freshness ?? undefined,
+    comment: comment || undefined,
+    definition: definition ?? "",
+  };
+}
+
+/**
+ * Convert a row of SHOW FUNCTIONS: Function, Return Type, Argument Types, Function Type, Deterministic,
+ * Description
+ */
+export function toFunctionInfo(row: unknown[]): FunctionInfo {
+  const [name, returnType, argumentTypes, kind, deterministic, description] = row as [
+    string,
+    string,
+    string,
+    string,
+    boolean,
+    string,
+  ];
+  return {
+    name,
+    returnType,
+    argumentTypes: splitTopLevel(argumentTypes),
+    kind,
+    deterministic: Boolean(deterministic),
+    description: description || undefined,
+  };
+}
+
+/**
+ * Parse a type name, keeping types the parser does not understand as a signature without arguments
+ */
+function parseTypeName(type: string): ClientTypeSignature {
+  try {
+    return parseTypeSignature(type);
+  } catch {
+    return { rawType: type as ClientTypeSignature["rawType"], arguments: [] };
+  }
+}
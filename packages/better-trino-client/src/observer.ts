@@ -0,0 +1,49 @@
+/**
+ * Query lifecycle hooks, the extension point for instrumentation such as the OpenTelemetry integration
+ * (@better-trino/client/otel)
+ */
+
+import type { QueryResult } from "./types.js";
+
+/**
+ * How a query ended: all pages were received, it yielded an error, or the consumer stopped iterating early
+ * (in which case the query is cancelled on the server)
+ */
+export type QueryOutcome = "finished" | "failed" | "cancelled";
+
+/**
+ * Query about to be submitted
+ */
+export interface QueryStartEvent {
+  /** SQL text of the query; fragments of the sql template have a ? in place of each value */
+  readonly query: string;
+  /** Base URL of the Trino server */
+  readonly baseUrl: string;
+}
+
+/**
+ * Hooks for the lifecycle of a single query
+ */
+export interface QueryObservation {
+  /**
+   * Headers added to the initial request of the query (e.g., traceparent to propagate trace context)
+   * Headers of QueryOptions take precedence
+   */
+  readonly headers?: Record<string, string>;
+  /** Called with each result: a page of the query, or the error that ended it */
+  onResult?(result: QueryResult<unknown>): void;
+  /** Called once when the query ends, however it ends */
+  onEnd?(outcome: QueryOutcome): void;
+}
+
+/**
+ * Observes the queries executed by a client
+ * Hooks run synchronously within the query, so they should be fast and must not throw
+ */
+export interface QueryObserver {
+  /**
+   * Called when a query starts, before it is submitted
+   * @returns Hooks for the rest of the query, if it should be observed
+   */
+  onQueryStart(event: QueryStartEvent): QueryObservation | void;
+}
@@ -0,0 +1,159 @@
+/**
+ * Tests for the OpenTelemetry instrumentation
+ */
+
+import { describe, test, expect, afterAll, beforeAll, beforeEach } from "bun:test";
+import { context, propagation, SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { Trino, sql } from "./index.js";
+import { openTelemetry, PAGE_EVENT_NAME, QUERY_SPAN_NAME } from "./otel.js";
+import { startStubServer } from "./test-server.js";
+
+const stats = (state: string) => ({
+  state,
+  processedRows: 1500,
+  processedBytes: 24000,
+  physicalInputBytes: 20000,
+  peakMemoryBytes: 4096,
+  cpuTimeMillis: 12,
+  wallTimeMillis: 30,
+  queuedTimeMillis: 2,
+  elapsedTimeMillis: 45,
+});
+
+describe("openTelemetry", () => {
+  let fail = false;
+
+  const server = startStubServer({
+    pages: () => [
+      { stats: stats("QUEUED") },
+      { data: [[1], [2]], stats: stats("RUNNING") },
+      fail
+        ? {
+            stats: stats("FAILED"),
+            error: {
+              message: "Division by zero",
+              errorCode: 8,
+              errorName: "DIVISION_BY_ZERO",
+              errorType: "USER_ERROR",
+              failureInfo: { type: "io.trino.spi.TrinoException", suppressed: [], stack: [] },
+            },
+          }
+        : { data: [[3]], stats: stats("FINISHED") },
+    ],
+  });
+  const { hostname, port } = new URL(server.url);
+
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+  const tracer = provider.getTracer("test");
+
+  beforeAll(() => {
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  });
+
+  beforeEach(() => {
+    server.reset();
+    fail = false;
+    exporter.reset();
+  });
+
+  afterAll(async () => {
+    propagation.disable();
+    context.disable();
+    await provider.shutdown();
+    server.stop();
+  });
+
+  test("should record a span covering the query", async () => {
+    const client = new Trino({ baseUrl: server.url, observer: openTelemetry({ tracer }) });
+    for await (const result of client.executeQuery(sql`SELECT * FROM t WHERE id = ${1}`)) {
+      expect(result.ok).toBe(true);
+    }
+
+    const [span, ...others] = exporter.getFinishedSpans();
+    expect(others).toHaveLength(0);
+    expect(span?.name).toBe(QUERY_SPAN_NAME);
+    expect(span?.kind).toBe(SpanKind.CLIENT);
+    expect(span?.status.code).toBe(SpanStatusCode.UNSET);
+    expect(span?.attributes).toMatchObject({
+      "db.system.name": "trino",
+      "db.query.text": "SELECT * FROM t WHERE id = ?",
+      "server.address": hostname,
+      "server.port": Number(port),
+      "trino.query.id": "query_1",
+      "trino.query.outcome": "finished",
+      "trino.query.state": "FINISHED",
+      "db.response.returned_rows": 3,
+      "trino.stats.processed_rows": 1500,
+      "trino.stats.processed_bytes": 24000,
+      "trino.stats.cpu_time_ms": 12,
+      "trino.stats.queued_time_ms": 2,
+    });
+    expect(span?.events.map((event) => [event.name, event.attributes])).toEqual([
+      [PAGE_EVENT_NAME, { "trino.query.state": "QUEUED", "trino.page.rows": 0 }],
+      [PAGE_EVENT_NAME, { "trino.query.state": "RUNNING", "trino.page.rows": 2 }],
+      [PAGE_EVENT_NAME, { "trino.query.state": "FINISHED", "trino.page.rows": 1 }],
+    ]);
+  });
+
+  test("should propagate trace context to Trino", async () => {
+    const client = new Trino({ baseUrl: server.url, observer: openTelemetry({ tracer }) });
+    const parent = tracer.startSpan("parent");
+    await context.with(trace.setSpan(context.active(), parent), async () => {
+      for await (const _ of client.executeQuery("SELECT 1")) {
+        // Drain
+      }
+    });
+    parent.end();
+
+    const span = exporter.getFinishedSpans().find((s) => s.name === QUERY_SPAN_NAME)!;
+    const { traceId, spanId } = span.spanContext();
+    expect(traceId).toBe(parent.spanContext().traceId);
+    expect(span.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+    expect(server.requests[0]?.headers.get("traceparent")).toBe(`00-${traceId}-${spanId}-01`);
+    expect(server.requests[0]?.headers.get("x-trino-trace-token")).toBe(traceId);
+  });
+
+  test("should record the error of a failed query", async () => {
+    fail = true;
+    const client = new Trino({ baseUrl: server.url, observer: openTelemetry({ tracer }) });
+    const results = [];
+    for await (const result of client.executeQuery("SELECT 1 / 0")) {
+      results.push(result);
+    }
+    expect(results.at(-1)?.ok).toBe(false);
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.status).toEqual({ code: SpanStatusCode.ERROR, message: "Division by zero" });
+    expect(span?.attributes).toMatchObject({
+      "error.type": "DIVISION_BY_ZERO",
+      "trino.error.type": "USER_ERROR",
+      "trino.error.code": 8,
+      "trino.query.outcome": "failed",
+      "trino.query.state": "RUNNING",
+    });
+  });
+
+  test("should end the span when iteration stops early", async () => {
+    const client = new Trino({
+      baseUrl: server.url,
+      observer: openTelemetry({ tracer, recordQueryText: false }),
+    });
+    for await (const _ of client.executeQuery("SELECT 1")) {
+      break;
+    }
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.attributes["trino.query.outcome"]).toBe("cancelled");
+    expect(span?.attributes["db.query.text"]).toBeUndefined();
+    expect(server.requests.map((r) => r.method)).toEqual(["POST", "DELETE"]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * OpenTelemetry instrumentation for the query lifecycle
+ * Imported from @better-trino/client/otel, so only applications that use it need the @opentelemetry/api
+ * peer dependency
+ *
+ * @example
+ * import { openTelemetry } from "@better-trino/client/otel";
+ * const client = new Trino({ baseUrl: "http://localhost:8080", observer: openTelemetry() });
+ */
+
+import {
+  context,
+  propagation,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Tracer,
+} from "@opentelemetry/api";
+import type { QueryObserver } from "./observer.js";
+import type { StatementStats } from "./protocol.js";
+import type { QueryErrorResult } from "./types.js";
+
+export interface OpenTelemetryOptions {
+  /** Tracer that creates the query spans (default: the tracer of the global tracer provider) */
+  tracer?: Tracer;
+  /**
+   * Record the SQL text as db.query.text (default: true)
+   * Values interpolated with the sql template are never recorded
+   */
+  recordQueryText?: boolean;
+}
+
+/** Name of the span covering a query from submission to completion */
+export const QUERY_SPAN_NAME = "trino.query";
+
+/** Name of the span event recorded for each page of results */
+export const PAGE_EVENT_NAME = "trino.page";
+
+const TRACER_NAME = "@better-trino/client";
+
+/**
+ * Create a query observer that records a span per query
+ * The span starts as a child of the active context and carries the query ID, a trino.page event per
+ * nextUri page, the final statement statistics and the error, if any
+ * Trace context is propagated to Trino through the global propagator (e.g., traceparent) and the trace ID
+ * is sent as x-trino-trace-token, which Trino includes in its logs and events
+ */
+export function openTelemetry(options: OpenTelemetryOptions = {}): QueryObserver {
+  const tracer = options.tracer ?? trace.getTracer(TRACER_NAME);
+  const recordQueryText = options.recordQueryText ?? true;
+
+  return {
+    onQueryStart({ query, baseUrl }) {
+      const server = new URL(baseUrl);
+      const span = tracer.startSpan(
+        QUERY_SPAN_NAME,
+        {
+          kind: SpanKind.CLIENT,
+          attributes: {
+            "db.system.name": "trino",
+            "server.address": server.hostname,
+            "server.port": Number(server.port) || (server.protocol === "https:" ? 443 : 80),
+            ...(recordQueryText && { "db.query.text": query }),
+          },
+        },
+        context.active(),
+      );
+
+      const headers: Record<string, string> = {};
+      const spanContext = span.spanContext();
+      if (trace.isSpanContextValid(spanContext)) {
+        propagation.inject(trace.setSpan(context.active(), span), headers);
+        headers["x-trino-trace-token"] = spanContext.traceId;
+      }
+
+      let returnedRows = 0;
+      let stats: StatementStats | undefined;
+
+      return {
+        headers,
+        onResult(result) {
+          if (!result.ok) {
+            span.setAttributes(errorAttributes(result.error));
+            span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage(result.error) });
+            return;
+          }
+
+          const { id, data } = result.value;
+          stats = result.value.stats;
+          returnedRows += data?.length ?? 0;
+          span.setAttribute("trino.query.id", id);
+          span.addEvent(PAGE_EVENT_NAME, {
+            "trino.query.state": stats.state,
+            "trino.page.rows": data?.length ?? 0,
+            ...(stats.progressPercentage !== undefined && {
+              "trino.query.progress": stats.progressPercentage,
+            }),
+          });
+        },
+        onEnd(outcome) {
+          span.setAttributes({
+            "trino.query.outcome": outcome,
+            "db.response.returned_rows": returnedRows,
+            ...(stats && statsAttributes(stats)),
+          });
+          span.end();
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Attributes for the final statistics of a query
+ */
+function statsAttributes(stats: StatementStats): Attributes {
+  return {
+    "trino.query.state": stats.state,
+    "trino.stats.processed_rows": stats.processedRows,
+    "trino.stats.processed_bytes": stats.processedBytes,
+    "trino.stats.physical_input_bytes": stats.physicalInputBytes,
+    "trino.stats.peak_memory_bytes": stats.peakMemoryBytes,
+    "trino.stats.cpu_time_ms": stats.cpuTimeMillis,
+    "trino.stats.wall_time_ms": stats.wallTimeMillis,
+    "trino.stats.queued_time_ms": stats.queuedTimeMillis,
+    "trino.stats.elapsed_time_ms": stats.elapsedTimeMillis,
+  };
+}
+
+/**
+ * Attributes for the error that ended a query
+ * error.type is the Trino error name for query errors, and the error tag for client-side errors
+ */
+function errorAttributes(error: QueryErrorResult): Attributes {
+  if ("errorType" in error) {
+    return {
+      "error.type": error.errorName,
+      "trino.error.type": error.errorType,
+      "trino.error.code": error.errorCode,
+    };
+  }
+  return { "error.type": error._tag };
+}
+
+function errorMessage(error: QueryErrorResult): string {
+  return "message" in error ? error.message : error._tag;
+}
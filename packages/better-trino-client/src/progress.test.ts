@@ -0,0 +1,170 @@
+/**
+ * Tests for progress reporting
+ */
+
+import { describe, test, expect, afterAll } from "bun:test";
+import { Trino } from "./index.js";
+import { toQueryProgress, type QueryProgress } from "./progress.js";
+import type { StageStats } from "./protocol.js";
+import { startStubServer, statementStats } from "./test-server.js";
+
+function stageStats(overrides: Partial<StageStats>): StageStats {
+  return {
+    stageId: "0",
+    state: "RUNNING",
+    done: false,
+    nodes: 1,
+    totalSplits: 0,
+    queuedSplits: 0,
+    runningSplits: 0,
+    completedSplits: 0,
+    cpuTimeMillis: 0,
+    wallTimeMillis: 0,
+    processedRows: 0,
+    processedBytes: 0,
+    physicalInputBytes: 0,
+    failedTasks: 0,
+    coordinatorOnly: false,
+    subStages: [],
+    ...overrides,
+  };
+}
+
+describe("toQueryProgress", () => {
+  test("should compute rates and the remaining time from the execution time", () => {
+    const progress = toQueryProgress(
+      "query_1",
+      statementStats({
+        progressPercentage: 25,
+        totalSplits: 8,
+        queuedSplits: 2,
+        runningSplits: 4,
+        completedSplits: 2,
+        processedRows: 10_000,
+        processedBytes: 2_000_000,
+        queuedTimeMillis: 500,
+        elapsedTimeMillis: 2500,
+        cpuTimeMillis: 900,
+      }),
+    );
+
+    expect(progress).toMatchObject({
+      queryId: "query_1",
+      state: "RUNNING",
+      previousState: undefined,
+      stateChanged: true,
+      percent: 25,
+      splits: { total: 8, queued: 2, running: 4, completed: 2 },
+      rowsPerSecond: 5000,
+      bytesPerSecond: 1_000_000,
+      elapsedMs: 2500,
+      queuedMs: 500,
+      cpuMs: 900,
+      estimatedRemainingMs: 6000,
+    });
+  });
+
+  test("should track state transitions", () => {
+    const queued = toQueryProgress("q", statementStats({ state: "QUEUED", queued: true }));
+    const running = toQueryProgress("q", statementStats({ state: "RUNNING" }), queued);
+    const stillRunning = toQueryProgress("q", statementStats({ state: "RUNNING" }), running);
+
+    expect([queued, running, stillRunning].map((p) => [p.previousState, p.stateChanged])).toEqual([
+      [undefined, true],
+      ["QUEUED", true],
+      ["RUNNING", false],
+    ]);
+  });
+
+  test("should leave the estimate undefined until progress is known", () => {
+    const progress = toQueryProgress("q", statementStats({ state: "QUEUED", queued: true }));
+    expect(progress.percent).toBeUndefined();
+    expect(progress.estimatedRemainingMs).toBeUndefined();
+    expect(progress.rowsPerSecond).toBe(0);
+  });
+
+  test("should report finished queries as complete", () => {
+    const progress = toQueryProgress(
+      "q",
+      statementStats({ state: "FINISHED", elapsedTimeMillis: 1000 }),
+    );
+    expect(progress.percent).toBe(100);
+    expect(progress.estimatedRemainingMs).toBe(0);
+  });
+
+  test("should break progress down by stage", () => {
+    const progress = toQueryProgress(
+      "q",
+      statementStats({
+        rootStage: stageStats({
+          stageId: "0",
+          totalSplits: 1,
+          runningSplits: 1,
+          subStages: [
+            stageStats({
+              stageId: "1",
+              totalSplits: 4,
+              completedSplits: 3,
+              runningSplits: 1,
+              processedRows: 300,
+            }),
+          ],
+        }),
+      }),
+    );
+
+    expect(progress.rootStage).toEqual({
+      stageId: "0",
+      state: "RUNNING",
+      done: false,
+      percent: 0,
+      splits: { total: 1, queued: 0, running: 1, completed: 0 },
+      processedRows: 0,
+      processedBytes: 0,
+      subStages: [
+        {
+          stageId: "1",
+          state: "RUNNING",
+          done: false,
+          percent: 75,
+          splits: { total: 4, queued: 0, running: 1, completed: 3 },
+          processedRows: 300,
+          processedBytes: 0,
+          subStages: [],
+        },
+      ],
+    });
+  });
+});
+
+describe("onProgress", () => {
+  const server = startStubServer({
+    pages: [
+      { stats: { state: "QUEUED", queued: true, scheduled: false } },
+      { stats: { state: "RUNNING", progressPercentage: 50 } },
+      { stats: { state: "FINISHING", progressPercentage: 99 } },
+      { stats: { state: "FINISHED" }, data: [[1]] },
+    ],
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  test("should emit a snapshot for every response, including pages without data", async () => {
+    const client = new Trino({ baseUrl: server.url });
+    const snapshots: QueryProgress[] = [];
+    for await (const result of client.executeQuery("SELECT 1", {
+      onProgress: (progress) => snapshots.push(progress),
+    })) {
+      expect(result.ok).toBe(true);
+    }
+
+    expect(snapshots.map((p) => [p.queryId, p.state, p.stateChanged, p.percent])).toEqual([
+      ["query_1", "QUEUED", true, undefined],
+      ["query_1", "RUNNING", true, 50],
+      ["query_1", "FINISHING", true, 99],
+      ["query_1", "FINISHED", true, 100],
+    ]);
+  });
+});
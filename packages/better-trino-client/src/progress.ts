@@ -0,0 +1,127 @@
+/**
+ * Progress snapshots derived from the statement statistics of each protocol response
+ *
+ * @see https://github.com/trinodb/trino/blob/master/client/trino-cli/src/main/java/io/trino/cli/StatusPrinter.java
+ */
+
+import type { StageStats, StatementStats } from "./protocol.js";
+
+/**
+ * Split counts of a query or stage
+ */
+export interface SplitProgress {
+  total: number;
+  queued: number;
+  running: number;
+  completed: number;
+}
+
+/**
+ * Progress of a stage, with its sub-stages
+ */
+export interface StageProgress {
+  stageId: string;
+  state: string;
+  done: boolean;
+  /** Share of completed splits, from 0 to 100; undefined while the stage has no splits */
+  percent?: number;
+  splits: SplitProgress;
+  processedRows: number;
+  processedBytes: number;
+  subStages: StageProgress[];
+}
+
+/**
+ * Normalized progress of a query at one protocol response
+ */
+export interface QueryProgress {
+  queryId: string;
+  /** Query state (e.g., QUEUED, PLANNING, RUNNING, FINISHING, FINISHED, FAILED) */
+  state: string;
+  /** State of the previous snapshot, undefined for the first one */
+  previousState?: string;
+  /** Whether the state differs from the previous snapshot (true for the first one) */
+  stateChanged: boolean;
+  queued: boolean;
+  scheduled: boolean;
+  /** Percent complete, from 0 to 100; undefined while the server cannot estimate it */
+  percent?: number;
+  splits: SplitProgress;
+  processedRows: number;
+  processedBytes: number;
+  /** Processing rate since the query left the queue */
+  rowsPerSecond: number;
+  bytesPerSecond: number;
+  elapsedMs: number;
+  queuedMs: number;
+  cpuMs: number;
+  /** Remaining time extrapolated from percent and the execution time so far; undefined when unknown */
+  estimatedRemainingMs?: number;
+  /** Root stage and its sub-stages; undefined until the query is scheduled */
+  rootStage?: StageProgress;
+}
+
+/**
+ * Build a progress snapshot from the statistics of a protocol response
+ * @param queryId - ID of the query
+ * @param stats - Statistics of the response
+ * @param previous - Snapshot of the previous response of the same query, if any
+ */
+export function toQueryProgress(
+  queryId: string,
+  stats: StatementStats,
+  previous?: QueryProgress,
+): QueryProgress {
+  const finished = stats.state === "FINISHED";
+  const percent = finished ? 100 : stats.progressPercentage;
+  // Rates and estimates only count the time since the query left the queue
+  const executionMs = Math.max(stats.elapsedTimeMillis - stats.queuedTimeMillis, 0);
+  const executionSeconds = executionMs / 1000;
+
+  return {
+    queryId,
+    state: stats.state,
+    previousState: previous?.state,
+    stateChanged: previous?.state !== stats.state,
+    queued: stats.queued,
+    scheduled: stats.scheduled,
+    percent,
+    splits: {
+      total: stats.totalSplits,
+      queued: stats.queuedSplits,
+      running: stats.runningSplits,
+      completed: stats.completedSplits,
+    },
+    processedRows: stats.processedRows,
+    processedBytes: stats.processedBytes,
+    rowsPerSecond: executionSeconds > 0 ? stats.processedRows / executionSeconds : 0,
+    bytesPerSecond: executionSeconds > 0 ? stats.processedBytes / executionSeconds : 0,
+    elapsedMs: stats.elapsedTimeMillis,
+    queuedMs: stats.queuedTimeMillis,
+    cpuMs: stats.cpuTimeMillis,
+    estimatedRemainingMs: finished
+      ? 0
+      : percent !== undefined && percent > 0 && executionMs > 0
+        ? Math.round((executionMs * (100 - percent)) / percent)
+        : undefined,
+    rootStage: stats.rootStage && toStageProgress(stats.rootStage),
+  };
+}
+
+function toStageProgress(stage: StageStats): StageProgress {
+  return {
+    stageId: stage.stageId,
+    state: stage.state,
+    done: stage.done,
+    percent: stage.totalSplits > 0 ? (stage.completedSplits / stage.totalSplits) * 100 : undefined,
+    splits: {
+      total: stage.totalSplits,
+      queued: stage.queuedSplits,
+      running: stage.runningSplits,
+      completed: stage.completedSplits,
+    },
+    processedRows: stage.processedRows,
+    processedBytes: stage.processedBytes,
+    subStages: stage.subStages.map(toStageProgress),
+  };
+}
@@ -161,36 +161,52 @@ export interface ErrorLocation {
  */
 export enum ParameterKind {
   TYPE = "TYPE",
+  NAMED_TYPE = "NAMED_TYPE",
   LONG = "LONG",
   VARIABLE = "VARIABLE",
 }
 
 /**
  * Client type signature parameter (discriminated union based on kind)
+ * Trino serializes every parameter as `{ kind, value }`, where the shape of `value` depends on the kind
  *
  * @see https://github.com/trinodb/trino/blob/master/client/trino-client/src/main/java/io/trino/client/ClientTypeSignatureParameter.java
  */
 export type ClientTypeSignatureParameter =
   | {
       kind: ParameterKind.TYPE;
-      typeSignature: ClientTypeSignature;
+      value: ClientTypeSignature;
+    }
+  | {
+      kind: ParameterKind.NAMED_TYPE;
+      value: NamedTypeSignature;
     }
   | {
       kind: ParameterKind.LONG;
-      longLiteral: number;
+      value: number;
     }
   | {
       kind: ParameterKind.VARIABLE;
-      namedTypeSignature: NamedTypeSignature;
+      value: string;
     };
 
+/**
+ * Name of a ROW field
+ *
+ * @see https://github.com/trinodb/trino/blob/master/client/trino-client/src/main/java/io/trino/client/RowFieldName.java
+ */
+export interface RowFieldName {
+  name: string;
+}
+
 /**
  * Named type signature (used for ROW types)
+ * Anonymous ROW fields have no fieldName
  *
  * @see https://github.com/trinodb/trino/blob/master/client/trino-client/src/main/java/io/trino/client/NamedClientTypeSignature.java
  */
 export interface NamedTypeSignature {
-  name?: string;
+  fieldName?: RowFieldName | null;
   typeSignature: ClientTypeSignature;
 }
 
@@ -606,6 +622,68 @@ export interface StatementStats {
  */
 export type QueryData = unknown[][] | null;
 
+/**
+ * Metadata describing a spooled protocol segment
+ *
+ * @see https://github.com/trinodb/trino/blob/master/client/trino-client/src/main/java/io/trino/client/spooling/Segment.java
+ */
+export interface SegmentMetadata {
+  /** Offset of the first row of the segment within the result set */
+  rowOffset: number;
+  /** Number of rows in the segment */
+  rowsCount: number;
+  /** Size of the encoded segment in bytes */
+  segmentSize: number;
+  /** Size of the segment before compression. Only present when the segment is compressed */
+  uncompressedSize?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Segment whose encoded data is embedded in the response as base64
+ *
+ * @see https://github.com/trinodb/trino/blob/master/client/trino-client/src/main/java/io/trino/client/spooling/InlineSegment.java
+ */
+export interface InlineSegment {
+  type: "inline";
+  /** Base64 encoded segment data */
+  data: string;
+  metadata: SegmentMetadata;
+}
+
+/**
+ * Segment whose encoded data must be downloaded from a separate URI
+ *
+ * @see https://github.com/trinodb/trino/blob/master/client/trino-client/src/main/java/io/trino/client/spooling/SpooledSegment.java
+ */
+export interface SpooledSegment {
+  type: "spooled";
+  /** URI to download the segment data from */
+  uri: string;
+  /** URI to acknowledge that the segment was downloaded, allowing the server to delete it */
+  ackUri?: string;
+  /** Headers required to download the segment */
+  headers?: Record<string, string[]>;
+  metadata: SegmentMetadata;
+}
+
+/**
+ * Discriminated union of spooled protocol segments
+ */
+export type Segment = InlineSegment | SpooledSegment;
+
+/**
+ * Query data returned by the spooled protocol when the client requests an encoding
+ *
+ * @see https://github.com/trinodb/trino/blob/master/client/trino-client/src/main/java/io/trino/client/spooling/EncodedQueryData.java
+ */
+export interface EncodedQueryData {
+  /** Encoding chosen by the server (e.g., "json", "json+zstd", "json+lz4") */
+  encoding: string;
+  metadata?: Record<string, unknown>;
+  segments: Segment[];
+}
+
 /**
  * Main query results response from Trino
  *
@@ -627,8 +705,11 @@ export interface QueryResults {
   /** Column definitions for the result set */
   columns?: Column[];
 
-  /** Result data rows. Each row is an array of column values */
-  data?: QueryData;
+  /**
+   * Result data rows. Each row is an array of column values
+   * When a query data encoding was requested, the rows are delivered as encoded segments instead
+   */
+  data?: QueryData | EncodedQueryData;
 
   /** Statistics about query execution */
   stats: StatementStats;
@@ -645,3 +726,164 @@ export interface QueryResults {
   /** Number of rows updated (for DML operations) */
   updateCount?: number;
 }
+
+/**
+ * State of a query on the coordinator
+ *
+ * @see https://github.com/trinodb/trino/blob/master/core/trino-main/src/main/java/io/trino/execution/QueryState.java
+ */
+export type QueryState =
+  | "QUEUED"
+  | "WAITING_FOR_RESOURCES"
+  | "DISPATCHING"
+  | "PLANNING"
+  | "STARTING"
+  | "RUNNING"
+  | "FINISHING"
+  | "FINISHED"
+  | "FAILED";
+
+/**
+ * Server information returned by GET /v1/info
+ * Durations use Trino's format with a unit suffix (e.g., "3.25h", see parseDuration)
+ *
+ * @see https://github.com/trinodb/trino/blob/master/core/trino-main/src/main/java/io/trino/server/ServerInfo.java
+ */
+export interface ServerInfo {
+  nodeVersion: { version: string };
+  environment: string;
+  coordinator: boolean;
+  /** Whether the server is still starting up and not yet accepting queries */
+  starting: boolean;
+  /** Time since the server started (e.g., "12.50m") */
+  uptime?: string;
+}
+
+/**
+ * Heartbeat statistics of a worker, returned by GET /v1/node and GET /v1/node/failed
+ *
+ * @see https://github.com/trinodb/trino/blob/master/core/trino-main/src/main/java/io/trino/failuredetector/HeartbeatFailureDetector.java
+ */
+export interface NodeStats {
+  /** URI of the node's announcement endpoint */
+  uri: string;
+  /** Time since the node was first seen (e.g., "2.00h") */
+  age: string;
+  recentRequests: number;
+  recentFailures: number;
+  recentSuccesses: number;
+  recentFailureRatio: number;
+  lastRequestTime?: string;
+  lastResponseTime?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Error code of a failed query
+ *
+ * @see https://github.com/trinodb/trino/blob/master/core/trino-spi/src/main/java/io/trino/spi/ErrorCode.java
+ */
+export interface ErrorCode {
+  code: number;
+  name: string;
+  type: QueryError["errorType"];
+}
+
+/**
+ * Session of a query, as reported in query info
+ *
+ * @see https://github.com/trinodb/trino/blob/master/core/trino-main/src/main/java/io/trino/SessionRepresentation.java
+ */
+export interface QuerySession {
+  queryId: string;
+  user: string;
+  source?: string;
+  catalog?: string;
+  schema?: string;
+  traceToken?: string;
+  clientTags?: string[];
+  systemProperties?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Summary statistics of a query
+ * Times are durations (e.g., "1.20s") and sizes are data sizes (e.g., "3.5MB") in Trino's format
+ *
+ * @see https://github.com/trinodb/trino/blob/master/core/trino-main/src/main/java/io/trino/server/BasicQueryStats.java
+ */
+export interface BasicQueryStats {
+  createTime: string;
+  endTime?: string;
+  queuedTime: string;
+  elapsedTime: string;
+  executionTime: string;
+  totalCpuTime: string;
+  totalDrivers: number;
+  queuedDrivers: number;
+  runningDrivers: number;
+  completedDrivers: number;
+  rawInputDataSize: string;
+  rawInputPositions: number;
+  physicalInputDataSize: string;
+  userMemoryReservation: string;
+  totalMemoryReservation: string;
+  peakUserMemoryReservation: string;
+  progressPercentage?: number;
+  runningPercentage?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Summary of a query, returned by GET /v1/query
+ *
+ * @see https://github.com/trinodb/trino/blob/master/core/trino-main/src/main/java/io/trino/server/BasicQueryInfo.java
+ */
+export interface BasicQueryInfo {
+  queryId: string;
+  session: QuerySession;
+  /** Path of the resource group the query runs in (e.g., ["global", "adhoc"]) */
+  resourceGroupId?: string[];
+  state: QueryState;
+  scheduled: boolean;
+  /** URI of the detailed query info */
+  self: string;
+  /** SQL text of the query */
+  query: string;
+  updateType?: string;
+  queryStats: BasicQueryStats;
+  errorType?: QueryError["errorType"];
+  errorCode?: ErrorCode;
+  /** Type of statement (e.g., "SELECT", "INSERT", "DATA_DEFINITION") */
+  queryType?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Detailed information about a query, returned by GET /v1/query/{queryId} (the document behind
+ * QueryResults.infoUri)
+ * Only the most commonly used fields are typed; the full document also has the stage tree, inputs, outputs, etc.
+ *
+ * @see https://github.com/trinodb/trino/blob/master/core/trino-main/src/main/java/io/trino/execution/QueryInfo.java
+ */
+export interface QueryInfo {
+  queryId: string;
+  session: QuerySession;
+  state: QueryState;
+  self: string;
+  /** Names of the result columns */
+  fieldNames: string[];
+  query: string;
+  preparedQuery?: string;
+  queryStats: BasicQueryStats;
+  updateType?: string;
+  failureInfo?: FailureInfo;
+  errorType?: QueryError["errorType"];
+  errorCode?: ErrorCode;
+  warnings: Warning[];
+  resourceGroupId?: string[];
+  queryType?: string;
+  /** Whether the info is final, i.e. the query has completed and its info will not change */
+  finalQueryInfo: boolean;
+  [key: string]: unknown;
+}
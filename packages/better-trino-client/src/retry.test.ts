@@ -0,0 +1,112 @@
+/**
+ * Tests for protocol-compliant request retries
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from "bun:test";
+import { Trino } from "./index.js";
+import { parseRetryAfter, resolveRetryOptions, retryDelay } from "./retry.js";
+import { startStubServer } from "./test-server.js";
+
+describe("retryDelay", () => {
+  const options = resolveRetryOptions({ initialDelayMs: 100, maxDelayMs: 1000 });
+
+  test("should back off exponentially within bounds", () => {
+    for (let retry = 0; retry < 8; retry++) {
+      const backoff = Math.min(1000, 100 * 2 ** retry);
+      const delay = retryDelay(retry, options);
+      expect(delay).toBeGreaterThanOrEqual(backoff / 2);
+      expect(delay).toBeLessThanOrEqual(backoff);
+    }
+  });
+
+  test("should honor Retry-After", () => {
+    expect(retryDelay(0, { ...options, maxDelayMs: 10_000 }, "3")).toBe(3000);
+  });
+
+  test("should clamp Retry-After to maxDelayMs", () => {
+    expect(retryDelay(0, options, "3600")).toBe(1000);
+    expect(retryDelay(0, options, new Date(Date.now() + 86_400_000).toUTCString())).toBe(1000);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  test("should parse seconds and HTTP dates", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe("Request retries", () => {
+  // Statuses to answer with, per path, before answering successfully
+  let failures: Record<string, number[]> = {};
+
+  const server = startStubServer({
+    pages: [{}, { data: [[1]] }],
+    handle: (request) => {
+      const status = failures[request.path]?.shift();
+      return status ? new Response(null, { status, headers: { "Retry-After": "0" } }) : undefined;
+    },
+  });
+  const requests = () => server.requests.map((request) => `${request.method} ${request.path}`);
+
+  beforeEach(() => {
+    failures = {};
+    server.reset();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  async function collect(client: Trino) {
+    const results = [];
+    for await (const result of client.executeQuery("SELECT 1")) {
+      results.push(result);
+    }
+    return results;
+  }
+
+  test("should retry nextUri polling on retryable statuses", async () => {
+    failures["/v1/statement/executing/query_1/1"] = [502, 503, 504, 429];
+    const results = await collect(new Trino({ baseUrl: server.url }));
+
+    expect(results.every((r) => r.ok)).toBe(true);
+    expect(requests().filter((r) => r === "GET /v1/statement/executing/query_1/1").length).toBe(5);
+  });
+
+  test("should only retry the initial POST when the statement was not started", async () => {
+    failures["/v1/statement"] = [503, 502];
+    const results = await collect(new Trino({ baseUrl: server.url }));
+
+    expect(requests()).toEqual(["POST /v1/statement", "POST /v1/statement"]);
+    const last = results[results.length - 1]!;
+    expect(last.ok).toBe(false);
+    if (!last.ok && last.error._tag === "HttpError") {
+      expect(last.error.response.status).toBe(502);
+      expect(last.error.retries).toBe(1);
+    }
+  });
+
+  test("should surface the retry count when retries are exhausted", async () => {
+    failures["/v1/statement/executing/query_1/1"] = [503, 503, 503];
+    const results = await collect(
+      new Trino({ baseUrl: server.url, retry: { maxRetries: 2, initialDelayMs: 1 } }),
+    );
+
+    const last = results[results.length - 1]!;
+    expect(last.ok).toBe(false);
+    if (!last.ok) {
+      expect(last.error).toMatchObject({ _tag: "HttpError", retries: 2 });
+    }
+  });
+
+  test("should not retry when disabled", async () => {
+    failures["/v1/statement"] = [503];
+    const results = await collect(new Trino({ baseUrl: server.url, retry: false }));
+
+    expect(requests()).toEqual(["POST /v1/statement"]);
+    expect(results[0]!.ok).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Retry policy for Trino client protocol requests
+ * The protocol asks clients to retry requests that the coordinator (or a load balancer in front of it)
+ * could not serve temporarily
+ *
+ * @see https://trino.io/docs/current/develop/client-protocol.html
+ */
+
+export interface RetryOptions {
+  /** Maximum number of retries per request (default: 5) */
+  maxRetries?: number;
+  /** Base delay before the first retry, in milliseconds (default: 100) */
+  initialDelayMs?: number;
+  /** Upper bound for the delay between retries, including Retry-After, in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /**
+   * Retry the initial POST to /v1/statement (default: true)
+   * The POST is only retried for statuses that guarantee the statement was not started (429 and 503)
+   */
+  retryInitialRequest?: boolean;
+}
+
+/**
+ * Statuses that are safe to retry for any protocol request, including the initial POST,
+ * because the server rejected the request without processing it
+ */
+export const RETRYABLE_SUBMIT_STATUSES: ReadonlySet<number> = new Set([429, 503]);
+
+/**
+ * Statuses that should be retried when polling nextUri
+ */
+export const RETRYABLE_POLL_STATUSES: ReadonlySet<number> = new Set([429, 502, 503, 504]);
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: 5,
+  initialDelayMs: 100,
+  maxDelayMs: 10_000,
+  retryInitialRequest: true,
+};
+
+/**
+ * Resolve retry configuration, where false disables retries and true uses the defaults
+ */
+export function resolveRetryOptions(
+  retry: boolean | RetryOptions | undefined,
+): Required<RetryOptions> {
+  if (retry === false) {
+    return { ...DEFAULT_RETRY_OPTIONS, maxRetries: 0 };
+  }
+  return { ...DEFAULT_RETRY_OPTIONS, ...(retry === true ? {} : retry) };
+}
+
+/**
+ * Compute the delay before the given retry
+ * Honors Retry-After when present, up to maxDelayMs, otherwise uses exponential backoff with jitter
+ * @param retry - Zero-based retry number
+ * @param options - Resolved retry options
+ * @param retryAfter - Value of the Retry-After response header, if any
+ */
+export function retryDelay(
+  retry: number,
+  options: Required<RetryOptions>,
+  retryAfter?: string | null,
+): number {
+  const serverDelay = parseRetryAfter(retryAfter);
+  if (serverDelay !== undefined) {
+    return Math.min(options.maxDelayMs, serverDelay);
+  }
+
+  const backoff = Math.min(options.maxDelayMs, options.initialDelayMs * 2 ** retry);
+  // Keep half of the backoff and randomize the rest so concurrent clients spread out
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * Parse a Retry-After header value (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+}
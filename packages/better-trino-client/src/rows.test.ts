@@ -0,0 +1,90 @@
+/**
+ * Unit tests for row-as-object helpers
+ */
+
+import { describe, test, expect, afterAll } from "bun:test";
+import { Trino } from "./index.js";
+import { columnKeys, estimateRowsSize, toRowObject } from "./rows.js";
+import { ParameterKind, type Column } from "./protocol.js";
+import { startStubServer } from "./test-server.js";
+
+function columns(...names: string[]): Column[] {
+  return names.map((name) => ({ name, type: "varchar" }));
+}
+
+describe("columnKeys", () => {
+  test("should keep unique column names", () => {
+    expect(columnKeys(columns("a", "b"))).toEqual(["a", "b"]);
+  });
+
+  test("should name empty columns by position", () => {
+    expect(columnKeys(columns("a", ""))).toEqual(["a", "_col1"]);
+  });
+
+  test("should suffix duplicate names without colliding with other columns", () => {
+    expect(columnKeys(columns("a", "a", "a_2", "a"))).toEqual(["a", "a_3", "a_2", "a_4"]);
+  });
+});
+
+describe("toRowObject", () => {
+  test("should zip keys with row values", () => {
+    expect(toRowObject([1, "x"], ["id", "name"])).toEqual({ id: 1, name: "x" });
+  });
+
+  test("should store reserved names as own properties", () => {
+    const row = toRowObject([1], ["__proto__"]);
+    expect(Object.keys(row)).toEqual(["__proto__"]);
+    expect(Object.getPrototypeOf(row)).toBe(Object.prototype);
+  });
+});
+
+describe("estimateRowsSize", () => {
+  test("should measure rows as JSON", () => {
+    expect(estimateRowsSize([[1, "a", null]])).toBe('[[1,"a",null]]'.length);
+    expect(estimateRowsSize([])).toBe(2);
+  });
+
+  test("should measure decoded values", () => {
+    expect(estimateRowsSize([[12345678901234567890n]])).toBe('[["12345678901234567890"]]'.length);
+    expect(estimateRowsSize([[new Uint8Array([1, 2])]])).toBe('[["xxxx"]]'.length);
+    expect(estimateRowsSize([[new Date(0)]])).toBe('[["1970-01-01T00:00:00.000Z"]]'.length);
+    expect(estimateRowsSize([[new Map([["a", 1n]])]])).toBe('[[[["a","1"]]]]'.length);
+    expect(estimateRowsSize([[new Set([1, 2])]])).toBe("[[[1,2]]]".length);
+  });
+});
+
+describe("maxBytes", () => {
+  const counts: Column = {
+    name: "counts",
+    type: "map(varchar, bigint)",
+    typeSignature: {
+      rawType: "map",
+      arguments: [
+        { kind: ParameterKind.TYPE, value: { rawType: "varchar", arguments: [] } },
+        { kind: ParameterKind.TYPE, value: { rawType: "bigint", arguments: [] } },
+      ],
+    },
+  };
+  const entries = Object.fromEntries(
+    Array.from({ length: 100 }, (_, index) => [`k${index}`, index]),
+  );
+
+  const server = startStubServer({
+    pages: [{ columns: [counts] }, { data: [[entries]] }, { data: [[entries]] }],
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  test("should measure the entries of decoded maps", async () => {
+    const client = new Trino({ baseUrl: server.url, decode: true });
+    const result = await client.query("SELECT counts FROM t", { maxBytes: 1000 });
+
+    expect(result).toEqual({
+      ok: false,
+      error: expect.objectContaining({ _tag: "LimitExceededError", limit: "maxBytes", max: 1000 }),
+    });
+    expect(server.requests.at(-1)?.method).toBe("DELETE");
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Helpers for converting positional result rows into objects keyed by column name
+ */
+
+import type { Column } from "./protocol.js";
+
+/**
+ * Compute a unique object key for every column
+ *
+ * - Empty column names become `_col<index>`, matching how Trino names unnamed expressions
+ * - Repeated names keep the first occurrence as is and suffix later ones with `_2`, `_3`, ...,
+ *   skipping suffixes that would collide with another column's name
+ */
+export function columnKeys(columns: Column[]): string[] {
+  const names = columns.map((column, index) => column.name || `_col${index}`);
+  const used = new Set(names);
+  const seen = new Set<string>();
+
+  return names.map((name) => {
+    if (!seen.has(name)) {
+      seen.add(name);
+      return name;
+    }
+
+    let suffix = 2;
+    while (used.has(`${name}_${suffix}`)) {
+      suffix++;
+    }
+
+    const key = `${name}_${suffix}`;
+    used.add(key);
+    return key;
+  });
+}
+
+/**
+ * Convert a positional row into an object using keys from columnKeys
+ */
+export function toRowObject(row: unknown[], keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(keys.map((key, index) => [key, row[index]]));
+}
+
+/**
+ * Estimate the size of rows in bytes as the length of their JSON encoding
+ * Decoded values are measured as strings (bigint as digits, dates as ISO strings, bytes as hex), maps as
+ * arrays of their entries and sets as arrays of their values
+ */
+export function estimateRowsSize(rows: readonly unknown[]): number {
+  return JSON.stringify(rows, (_key, value: unknown) => {
+    if (typeof value === "bigint") {
+      return value.toString();
+    }
+    if (value instanceof Uint8Array) {
+      return "x".repeat(value.length * 2);
+    }
+    if (value instanceof Map || value instanceof Set) {
+      return [...value];
+    }
+    return value;
+  }).length;
+}
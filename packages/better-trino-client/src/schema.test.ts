@@ -0,0 +1,153 @@
+/**
+ * Tests for validating query results with Standard Schema validators
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from "bun:test";
+import { z } from "zod";
+import { Trino, type InferSchemaOutput, type QueryResult } from "./index.js";
+import { ParameterKind, type Column } from "./protocol.js";
+import { startStubServer } from "./test-server.js";
+
+const COLUMNS: Column[] = [
+  {
+    name: "id",
+    type: "bigint",
+    typeSignature: { rawType: "bigint", arguments: [] },
+  },
+  {
+    name: "name",
+    type: "varchar(10)",
+    typeSignature: {
+      rawType: "varchar",
+      arguments: [{ kind: ParameterKind.LONG, value: 10 }],
+    },
+  },
+];
+
+async function collect<Row>(
+  results: AsyncGenerator<QueryResult<Row>>,
+): Promise<QueryResult<Row>[]> {
+  const collected: QueryResult<Row>[] = [];
+  for await (const result of results) {
+    collected.push(result);
+  }
+  return collected;
+}
+
+describe("schema validation", () => {
+  // Rows of each page, served in order through nextUri
+  let pages: unknown[][][] = [];
+
+  const server = startStubServer({
+    pages: () => pages.map((data) => ({ columns: COLUMNS, data })),
+  });
+  const cancelled = () => server.requests.some((request) => request.method === "DELETE");
+
+  const client = new Trino({ baseUrl: server.url, decode: true });
+
+  beforeEach(() => {
+    pages = [
+      [
+        [1, "Alice"],
+        [2, "Bob"],
+      ],
+      [[3, "Carol"]],
+    ];
+    server.reset();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  const Person = z.object({
+    id: z.bigint(),
+    name: z.string().transform((name) => name.toUpperCase()),
+  });
+
+  test("should validate and transform decoded rows", async () => {
+    const results = await collect(
+      client.executeQuery<InferSchemaOutput<typeof Person>>("SELECT id, name FROM people", {
+        rowFormat: "object",
+        schema: Person,
+      }),
+    );
+    expect(results.flatMap((result) => (result.ok ? (result.value.data ?? []) : []))).toEqual([
+      { id: 1n, name: "ALICE" },
+      { id: 2n, name: "BOB" },
+      { id: 3n, name: "CAROL" },
+    ]);
+  });
+
+  test("should report the index and column of a rejected row and cancel the query", async () => {
+    pages = [[[1, "Alice"]], [[2, "Bob"]], [[3, null]], [[4, "Dave"]]];
+    const results = await collect(
+      client.executeQuery("SELECT id, name FROM people", { rowFormat: "object", schema: Person }),
+    );
+
+    const last = results.at(-1)!;
+    expect(last.ok).toBe(false);
+    expect(!last.ok && last.error).toMatchObject({
+      _tag: "ValidationError",
+      rowIndex: 2,
+      column: "name",
+      issues: [expect.objectContaining({ path: ["name"] })],
+    });
+    expect(results).toHaveLength(3);
+    expect(cancelled()).toBe(true);
+  });
+
+  test("should name the column of rejected array rows by position", async () => {
+    const results = await collect(
+      client.executeQuery("SELECT id, name FROM people", {
+        schema: z.tuple([z.bigint(), z.string().max(3)]),
+      }),
+    );
+    expect(results.map((result) => !result.ok && result.error)).toEqual([
+      expect.objectContaining({ _tag: "ValidationError", rowIndex: 0, column: "name" }),
+    ]);
+  });
+
+  test("should validate the columns metadata before any row", async () => {
+    const columns = z
+      .array(z.object({ name: z.string(), type: z.string() }))
+      .refine((actual) => actual.some((column) => column.name === "email"), {
+        message: "Missing column email",
+      });
+    pages = [[]];
+    const results = await collect(
+      client.executeQuery("SELECT id, name FROM people", { schema: { columns } }),
+    );
+    expect(results).toEqual([
+      {
+        ok: false,
+        error: expect.objectContaining({
+          _tag: "ValidationError",
+          rowIndex: undefined,
+          message: "Missing column email",
+        }),
+      },
+    ]);
+
+    const typed = z.array(z.object({ name: z.string(), type: z.literal("bigint") }));
+    const rejected = await collect(
+      client.executeQuery("SELECT id, name FROM people", { schema: { columns: typed } }),
+    );
+    expect(!rejected[0]!.ok && rejected[0]!.error).toMatchObject({
+      _tag: "ValidationError",
+      column: "name",
+    });
+  });
+
+  test("should surface validation errors from the collecting helpers", async () => {
+    const collected = await client.query("SELECT id, name FROM people", {
+      rowFormat: "object",
+      schema: z.object({ id: z.bigint().max(1n) }),
+    });
+    expect(!collected.ok && collected.error).toMatchObject({
+      _tag: "ValidationError",
+      rowIndex: 1,
+      column: "id",
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Runtime validation of query results with Standard Schema validators (zod, valibot, arktype, ...)
+ * The interfaces follow the Standard Schema specification, so validators are accepted without an adapter
+ *
+ * @see https://standardschema.dev
+ */
+
+import type { Column } from "./protocol.js";
+import type { Result, ValidationError } from "./types.js";
+
+/**
+ * Validator implementing the Standard Schema specification (version 1)
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaProps<Input, Output>;
+}
+
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  readonly version: 1;
+  /** Name of the validation library (e.g., "zod") */
+  readonly vendor: string;
+  readonly validate: (
+    value: unknown,
+  ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+  /** Inferred types, only used at the type level */
+  readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaIssue[] };
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  /** Path of the offending value (e.g., ["orders", 0, "totalprice"]) */
+  readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[] | undefined;
+}
+
+/**
+ * Output type of a Standard Schema, e.g. to type executeQuery<Row> after the schema of its rows
+ * @example executeQuery<InferSchemaOutput<typeof Nation>>(query, { schema: Nation })
+ */
+export type InferSchemaOutput<Schema extends StandardSchemaV1> = NonNullable<
+  Schema["~standard"]["types"]
+>["output"];
+
+/**
+ * Schemas of the columns metadata and of the rows of a query (QueryOptions.schema)
+ */
+export interface QuerySchema {
+  /** Validates the columns metadata (Column[]) once it is known, before any row */
+  columns?: StandardSchemaV1;
+  /** Validates each row after decoding; the rows are replaced by the output of the schema */
+  rows?: StandardSchemaV1;
+}
+
+/**
+ * Normalize QueryOptions.schema, where a Standard Schema on its own validates the rows
+ */
+export function toQuerySchema(schema: StandardSchemaV1 | QuerySchema): QuerySchema {
+  return "~standard" in schema ? { rows: schema } : schema;
+}
+
+/**
+ * Validate the columns metadata of a query
+ */
+export async function validateColumns(
+  schema: StandardSchemaV1,
+  columns: Column[],
+): Promise<Result<void, ValidationError>> {
+  const result = await schema["~standard"].validate(columns);
+  if (result.issues) {
+    return {
+      ok: false,
+      error: createValidationError(result.issues, columnName(result.issues, columns)),
+    };
+  }
+  return { ok: true, value: undefined };
+}
+
+/**
+ * Validate rows of a query, returning the output of the schema for each row
+ * @param offset - Index of the first row among all rows of the query
+ */
+export async function validateRows(
+  schema: StandardSchemaV1,
+  rows: unknown[],
+  columns: Column[] | undefined,
+  offset: number,
+): Promise<Result<unknown[], ValidationError>> {
+  const validated: unknown[] = [];
+  for (const [index, row] of rows.entries()) {
+    const result = await schema["~standard"].validate(row);
+    if (result.issues) {
+      return {
+        ok: false,
+        error: createValidationError(
+          result.issues,
+          columnName(result.issues, columns),
+          offset + index,
+        ),
+      };
+    }
+    validated.push(result.value);
+  }
+  return { ok: true, value: validated };
+}
+
+/**
+ * Name of the column the first issue refers to
+ * Object rows are keyed by column name, while array rows and the columns metadata are indexed by position
+ */
+function columnName(
+  issues: readonly StandardSchemaIssue[],
+  columns: Column[] | undefined,
+): string | undefined {
+  const segment = issues[0]?.path?.[0];
+  const key = typeof segment === "object" ? segment.key : segment;
+  if (typeof key === "number") {
+    return columns?.[key]?.name;
+  }
+  return typeof key === "string" ? key : undefined;
+}
+
+function createValidationError(
+  issues: readonly StandardSchemaIssue[],
+  column?: string,
+  rowIndex?: number,
+): ValidationError {
+  return {
+    _tag: "ValidationError",
+    rowIndex,
+    column,
+    issues,
+    message: issues[0]?.message ?? "Validation failed",
+  };
+}
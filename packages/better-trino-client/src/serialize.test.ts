@@ -0,0 +1,226 @@
+/**
+ * Unit tests for result serialization
+ */
+
+import { describe, test, expect } from "bun:test";
+import { decodeRow } from "./decode.js";
+import { ParameterKind, type ClientTypeSignature, type Column } from "./protocol.js";
+import { serialize, type SerializeOptions } from "./serialize.js";
+import { queryResults } from "./test-server.js";
+import type { QueryResult } from "./types.js";
+
+function type(
+  rawType: ClientTypeSignature["rawType"],
+  ...args: ClientTypeSignature["arguments"]
+): ClientTypeSignature {
+  return { rawType, arguments: args };
+}
+
+function typeArg(signature: ClientTypeSignature) {
+  return { kind: ParameterKind.TYPE, value: signature } as const;
+}
+
+function fieldArg(name: string, signature: ClientTypeSignature) {
+  return {
+    kind: ParameterKind.NAMED_TYPE,
+    value: { fieldName: { name }, typeSignature: signature },
+  } as const;
+}
+
+function column(name: string, signature: ClientTypeSignature): Column {
+  return { name, type: signature.rawType, typeSignature: signature };
+}
+
+function page(data: unknown[][] | undefined, columns?: Column[]): QueryResult<unknown[]> {
+  return {
+    ok: true,
+    value: { ...queryResults({ columns }), data },
+  };
+}
+
+async function* results(...pages: QueryResult<unknown[]>[]) {
+  yield* pages;
+}
+
+async function output(pages: QueryResult<unknown[]>[], options: SerializeOptions) {
+  const chunks: string[] = [];
+  for await (const chunk of serialize(results(...pages), options)) {
+    if (!chunk.ok) {
+      throw new Error(chunk.error._tag);
+    }
+    chunks.push(chunk.value);
+  }
+  return chunks.join("");
+}
+
+const columns = [
+  column("id", type("bigint")),
+  column("name", type("varchar")),
+  column("tags", type("array", typeArg(type("varchar")))),
+];
+
+const pages = [
+  page(undefined, columns),
+  page([[1, "plain", ["a"]]], columns),
+  page([
+    [2, 'say "hi", bye', []],
+    [3, null, null],
+  ]),
+];
+
+describe("serialize", () => {
+  test("should write CSV with RFC 4180 quoting", async () => {
+    expect(await output(pages, { format: "csv" })).toBe(
+      'id,name,tags\n1,plain,"[""a""]"\n2,"say ""hi"", bye",[]\n3,,\n',
+    );
+  });
+
+  test("should apply the CSV options", async () => {
+    expect(
+      await output(pages, { format: "csv", header: false, nullValue: "NULL", newline: "\r\n" }),
+    ).toBe('1,plain,"[""a""]"\r\n2,"say ""hi"", bye",[]\r\n3,NULL,NULL\r\n');
+  });
+
+  test("should quote line breaks in CSV", async () => {
+    const text = await output([page([[1, "two\nlines", []]], columns)], {
+      format: "csv",
+      header: false,
+    });
+    expect(text).toBe('1,"two\nlines",[]\n');
+  });
+
+  test("should write TSV with escapes", async () => {
+    const text = await output([page([[1, "a\tb\\c\nd", ["x"]]], columns)], { format: "tsv" });
+    expect(text).toBe('id\tname\ttags\n1\ta\\tb\\\\c\\nd\t["x"]\n');
+  });
+
+  test("should write NDJSON objects keyed by column name", async () => {
+    expect(await output(pages, { format: "ndjson" })).toBe(
+      [
+        '{"id":1,"name":"plain","tags":["a"]}',
+        '{"id":2,"name":"say \\"hi\\", bye","tags":[]}',
+        '{"id":3,"name":null,"tags":null}',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("should write a JSON array", async () => {
+    const text = await output(pages, { format: "json" });
+    expect(JSON.parse(text)).toEqual([
+      { id: 1, name: "plain", tags: ["a"] },
+      { id: 2, name: 'say "hi", bye', tags: [] },
+      { id: 3, name: null, tags: null },
+    ]);
+    expect(await output([page(undefined)], { format: "json" })).toBe("[]\n");
+    expect(await output([page(undefined, columns)], { format: "json" })).toBe("[]\n");
+  });
+
+  test("should render raw and decoded values the same way", async () => {
+    const complex = [
+      column("big", type("bigint")),
+      column("bytes", type("varbinary")),
+      column("day", type("date")),
+      column("at", type("timestamp")),
+      column("amount", type("decimal")),
+      column("counts", type("map", typeArg(type("varchar")), typeArg(type("bigint")))),
+      column("point", type("row", fieldArg("x", type("double")), fieldArg("y", type("double")))),
+      column("doc", type("json")),
+    ];
+    const raw = [
+      "9007199254740993",
+      "AAH/",
+      "2024-03-01",
+      "2024-03-01 12:30:00.250",
+      "12.50",
+      { a: 1 },
+      [1.5, -2],
+      '{"k":[1,2]}',
+    ];
+    const decoded = decodeRow(raw, complex);
+
+    for (const row of [raw, decoded]) {
+      const text = await output([page([row], complex)], { format: "ndjson" });
+      expect(text).toBe(
+        '{"big":9007199254740993,"bytes":"AAH/","day":"2024-03-01","at":"2024-03-01 12:30:00.250",' +
+          '"amount":"12.50","counts":{"a":1},"point":{"x":1.5,"y":-2},"doc":{"k":[1,2]}}\n',
+      );
+    }
+  });
+
+  test("should render temporal and interval values raw and decoded the same way", async () => {
+    const long = (value: number) => ({ kind: ParameterKind.LONG, value }) as const;
+    const temporal = [
+      column("at", type("timestamp", long(3))),
+      column("at0", type("timestamp", long(0))),
+      column("at6", type("timestamp", long(6))),
+      column("zoned", type("timestamp with time zone", long(3))),
+      column("elapsed", type("interval day to second")),
+      column("ago", type("interval day to second")),
+      column("term", type("interval year to month")),
+      column("overdue", type("interval year to month")),
+    ];
+    const raw = [
+      "2024-01-02 03:04:05.678",
+      "2024-01-02 03:04:05",
+      "2024-01-02 03:04:05.678000",
+      "2024-01-02 03:04:05.678 UTC",
+      "1 02:03:04.500",
+      "-0 00:00:01.250",
+      "1-2",
+      "-3-0",
+    ];
+    const decoded = decodeRow(raw, temporal);
+
+    for (const row of [raw, decoded]) {
+      const text = await output([page([row], temporal)], { format: "csv", header: false });
+      expect(text).toBe(`${raw.join(",")}\n`);
+    }
+  });
+
+  test("should write the digits decoded timestamps cannot hold as zeros", async () => {
+    const precise = [column("at", type("timestamp", { kind: ParameterKind.LONG, value: 6 }))];
+    const decoded = decodeRow(["2024-01-02 03:04:05.678901"], precise);
+    const text = await output([page([decoded], precise)], { format: "csv", header: false });
+    expect(text).toBe("2024-01-02 03:04:05.678000\n");
+  });
+
+  test("should encode binary values as hex", async () => {
+    const bytes = [column("bytes", type("varbinary"))];
+    const text = await output([page([["AAH/"]], bytes)], {
+      format: "csv",
+      header: false,
+      binaryEncoding: "hex",
+    });
+    expect(text).toBe("0001ff\n");
+  });
+
+  test("should write non-finite numbers as strings", async () => {
+    const doubles = [column("value", type("double"))];
+    const text = await output([page([[Number.NaN], [Infinity]], doubles)], { format: "ndjson" });
+    expect(text).toBe('{"value":"NaN"}\n{"value":"Infinity"}\n');
+  });
+
+  test("should serialize object rows", async () => {
+    const text = await output(
+      [page([{ id: 1, name: "a", tags: [] }] as unknown as unknown[][], columns)],
+      { format: "csv", header: false },
+    );
+    expect(text).toBe("1,a,[]\n");
+  });
+
+  test("should yield the query error and stop", async () => {
+    const chunks = [];
+    for await (const chunk of serialize(
+      results(pages[1]!, {
+        ok: false,
+        error: { _tag: "FetchError", error: new Error("connection reset") },
+      }),
+      { format: "json" },
+    )) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((chunk) => chunk.ok)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Serialization of query results to CSV, TSV, NDJSON and JSON arrays
+ * Values are rendered from the column types, so raw and decoded results produce the same output: complex
+ * values (array, map, row, json) as JSON, varbinary as base64 or hex, and temporal values in Trino's format
+ * Decoded dates only hold milliseconds and no time zone, so their finer digits are written as zeros and
+ * timestamps with time zone are written in UTC
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4180
+ */
+
+import { ClientStandardTypes, type ClientTypeSignature, type Column } from "./protocol.js";
+import { columnKeys } from "./rows.js";
+import { longArgument, rowFields, typeArgument } from "./signature.js";
+import type { QueryErrorResult, QueryResult, Result } from "./types.js";
+
+export type SerializationFormat = "csv" | "tsv" | "ndjson" | "json";
+
+export interface SerializeOptions {
+  /**
+   * Output format
+   * - csv: comma-separated values, quoted as specified by RFC 4180
+   * - tsv: tab-separated values, with tabs, line breaks and backslashes escaped as \t, \n, \r and \\
+   * - ndjson: one JSON object per line, keyed by column name
+   * - json: a JSON array of objects keyed by column name
+   */
+  format: SerializationFormat;
+  /** Write a line with the column names first (csv and tsv, default: true) */
+  header?: boolean;
+  /** Text written for null values (csv and tsv, default: "") */
+  nullValue?: string;
+  /** Line terminator (csv and tsv, default: "\n"); RFC 4180 specifies "\r\n" */
+  newline?: "\n" | "\r\n";
+  /** Encoding of varbinary values (default: "base64", as Trino sends them) */
+  binaryEncoding?: "base64" | "hex";
+}
+
+/**
+ * Value in the JSON data model, with bigint for integers written without losing precision
+ */
+type JsonValue =
+  | null
+  | boolean
+  | number
+  | bigint
+  | string
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/**
+ * Writes the parts of an output format
+ */
+interface Formatter {
+  /** Text before the first row, once the columns are known */
+  start(columns: Column[], keys: string[]): string;
+  row(values: JsonValue[], keys: string[]): string;
+  /** Text after the last row */
+  end(): string;
+}
+
+/**
+ * Serialize the results of executeQuery, yielding a chunk of text per page
+ * Rows may be positional arrays or objects (rowFormat "object"); a failed query yields its error and ends
+ * the output, which is then incomplete
+ * @param results - Results of executeQuery
+ * @param options - Output format and rendering options
+ *
+ * @example
+ * for await (const chunk of serialize(client.executeQuery("SELECT * FROM nation"), { format: "csv" })) {
+ *   if (!chunk.ok) throw new Error(chunk.error._tag);
+ *   file.write(chunk.value);
+ * }
+ */
+export async function* serialize(
+  results: AsyncIterable<QueryResult<unknown>>,
+  options: SerializeOptions,
+): AsyncGenerator<Result<string, QueryErrorResult>, void> {
+  const formatter = createFormatter(options);
+  const binaryEncoding = options.binaryEncoding ?? "base64";
+  let columns: Column[] | undefined;
+  let keys: string[] = [];
+
+  for await (const result of results) {
+    if (!result.ok) {
+      yield result;
+      return;
+    }
+
+    let chunk = "";
+    if (!columns && result.value.columns) {
+      columns = result.value.columns;
+      keys = columnKeys(columns);
+      chunk += formatter.start(columns, keys);
+    }
+    for (const row of result.value.data ?? []) {
+      const values = Array.isArray(row)
+        ? row
+        : keys.map((key) => (row as Record<string, unknown>)[key]);
+      chunk += formatter.row(
+        values.map((value, index) =>
+          toJsonValue(value, columns?.[index]?.typeSignature, binaryEncoding),
+        ),
+        keys,
+      );
+    }
+    if (chunk) {
+      yield { ok: true, value: chunk };
+    }
+  }
+
+  // Statements without a result set never report columns
+  const end = (columns ? "" : formatter.start([], [])) + formatter.end();
+  if (end) {
+    yield { ok: true, value: end };
+  }
+}
+
+function createFormatter(options: SerializeOptions): Formatter {
+  const newline = options.newline ?? "\n";
+  const nullValue = options.nullValue ?? "";
+
+  switch (options.format) {
+    case "csv":
+    case "tsv": {
+      const escape = options.format === "csv" ? quoteCsv : escapeTsv;
+      const separator = options.format === "csv" ? "," : "\t";
+      const line = (cells: string[]) => cells.join(separator) + newline;
+      return {
+        start: (columns) =>
+          options.header !== false && columns.length > 0
+            ? line(columns.map((column) => escape(column.name)))
+            : "",
+        row: (values) =>
+          line(values.map((value) => (value === null ? nullValue : escape(textValue(value))))),
+        end: () => "",
+      };
+    }
+    case "ndjson":
+      return {
+        start: () => "",
+        row: (values, keys) => `${jsonText(toObject(values, keys))}\n`,
+        end: () => "",
+      };
+    case "json": {
+      let rows = 0;
+      return {
+        start: () => "[",
+        row: (values, keys) => `${rows++ === 0 ? "\n" : ",\n"}${jsonText(toObject(values, keys))}`,
+        end: () => (rows > 0 ? "\n]\n" : "]\n"),
+      };
+    }
+  }
+}
+
+/**
+ * Quote a CSV field when it contains a comma, a double quote or a line break, doubling embedded quotes
+ */
+function quoteCsv(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function escapeTsv(text: string): string {
+  return text.replace(/[\\\t\n\r]/g, (char) =>
+    char === "\t" ? "\\t" : char === "\n" ? "\\n" : char === "\r" ? "\\r" : "\\\\",
+  );
+}
+
+/**
+ * Text of a CSV or TSV cell: scalars as is and complex values as JSON
+ */
+function textValue(value: Exclude<JsonValue, null>): string {
+  return typeof value === "object" ? jsonText(value) : String(value);
+}
+
+function toObject(values: JsonValue[], keys: string[]): JsonValue {
+  return Object.fromEntries(keys.map((key, index) => [key, values[index] ?? null]));
+}
+
+/**
+ * Convert a raw or decoded value to the JSON data model, using its type signature when known
+ */
+function toJsonValue(
+  value: unknown,
+  signature: ClientTypeSignature | undefined,
+  binaryEncoding: "base64" | "hex",
+): JsonValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const convert = (inner: unknown, innerSignature?: ClientTypeSignature) =>
+    toJsonValue(inner, innerSignature, binaryEncoding);
+
+  switch (signature?.rawType) {
+    case ClientStandardTypes.BIGINT:
+      // Integers beyond the safe range may be passed as digit strings
+      if (typeof value === "string" && /^-?\d+$/.test(value)) {
+        return BigInt(value);
+      }
+      break;
+    case ClientStandardTypes.VARBINARY:
+      if (typeof value === "string") {
+        return encodeBinary(Buffer.from(value, "base64"), binaryEncoding);
+      }
+      break;
+    case ClientStandardTypes.JSON:
+      if (typeof value === "string") {
+        try {
+          return convert(JSON.parse(value));
+        } catch {
+          return value;
+        }
+      }
+      break;
+    case ClientStandardTypes.DATE:
+      if (value instanceof Date) {
+        return formatDate(value);
+      }
+      break;
+    case ClientStandardTypes.TIMESTAMP:
+      if (value instanceof Date) {
+        return formatTimestamp(value, longArgument(signature, 0) ?? 3);
+      }
+      break;
+    case ClientStandardTypes.TIMESTAMP_WITH_TIME_ZONE:
+      if (value instanceof Date) {
+        return `${formatTimestamp(value, longArgument(signature, 0) ?? 3)} UTC`;
+      }
+      break;
+    case ClientStandardTypes.INTERVAL_DAY_TO_SECOND:
+      if (typeof value === "number") {
+        return formatIntervalDayToSecond(value);
+      }
+      break;
+    case ClientStandardTypes.INTERVAL_YEAR_TO_MONTH:
+      if (typeof value === "number") {
+        return formatIntervalYearToMonth(value);
+      }
+      break;
+    case ClientStandardTypes.ARRAY:
+      if (Array.isArray(value)) {
+        const elementType = typeArgument(signature, 0);
+        return value.map((element) => convert(element, elementType));
+      }
+      break;
+    case ClientStandardTypes.MAP:
+      if (typeof value === "object") {
+        const valueType = typeArgument(signature, 1);
+        const entries = value instanceof Map ? [...value] : Object.entries(value);
+        return Object.fromEntries(
+          entries.map(([key, entry]) => [String(key), convert(entry, valueType)]),
+        );
+      }
+      break;
+    case ClientStandardTypes.ROW: {
+      if (typeof value !== "object") {
+        break;
+      }
+      // Raw rows are positional, decoded rows are keyed by field name
+      const row = value as Record<string, unknown> | unknown[];
+      return Object.fromEntries(
+        rowFields(signature).map(({ name, type }, index) => [
+          name,
+          convert(Array.isArray(row) ? row[index] : row[name], type),
+        ]),
+      );
+    }
+  }
+
+  if (typeof value === "bigint" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Uint8Array) {
+    return encodeBinary(value, binaryEncoding);
+  }
+  if (Array.isArray(value)) {
+    return value.map((element) => convert(element));
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries([...value].map(([key, entry]) => [String(key), convert(entry)]));
+  }
+  if (typeof value === "object") {
+    // TrinoDecimal keeps the exact decimal string
+    if ((value as { _tag?: unknown })._tag === "Decimal") {
+      return (value as { value: string }).value;
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, convert(entry)]));
+  }
+  return String(value);
+}
+
+/**
+ * Format a decoded date as Trino does (e.g., "2024-01-02")
+ */
+function formatDate(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = pad(date.getUTCMonth() + 1, 2);
+  return `${year < 0 ? "-" : ""}${pad(Math.abs(year), 4)}-${month}-${pad(date.getUTCDate(), 2)}`;
+}
+
+/**
+ * Format a decoded timestamp with the fractional digits of its precision (e.g., "2024-01-02 03:04:05.678")
+ */
+function formatTimestamp(date: Date, precision: number): string {
+  const time = [date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()]
+    .map((part) => pad(part, 2))
+    .join(":");
+  const fraction = pad(date.getUTCMilliseconds(), 3).padEnd(precision, "0").slice(0, precision);
+  return `${formatDate(date)} ${time}${precision > 0 ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Format a number of milliseconds as Trino formats an interval day to second (e.g., "1 02:03:04.500")
+ */
+function formatIntervalDayToSecond(millis: number): string {
+  const total = Math.abs(millis);
+  const days = Math.floor(total / 86_400_000);
+  const time = [
+    Math.floor(total / 3_600_000) % 24,
+    Math.floor(total / 60_000) % 60,
+    Math.floor(total / 1000) % 60,
+  ]
+    .map((part) => pad(part, 2))
+    .join(":");
+  return `${millis < 0 ? "-" : ""}${days} ${time}.${pad(total % 1000, 3)}`;
+}
+
+/**
+ * Format a number of months as Trino formats an interval year to month (e.g., "1-2")
+ */
+function formatIntervalYearToMonth(months: number): string {
+  const total = Math.abs(months);
+  return `${months < 0 ? "-" : ""}${Math.floor(total / 12)}-${total % 12}`;
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, "0");
+}
+
+function encodeBinary(bytes: Uint8Array, encoding: "base64" | "hex"): string {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString(encoding);
+}
+
+/**
+ * Encode a value as JSON text, writing bigint as digits and non-finite numbers as strings
+ */
+function jsonText(value: JsonValue): string {
+  if (value === null) {
+    return "null";
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : JSON.stringify(String(value));
+  }
+  if (typeof value === "string" || typeof value === "boolean") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(jsonText).join(",")}]`;
+  }
+  const fields = Object.entries(value).map(
+    ([key, entry]) => `${JSON.stringify(key)}:${jsonText(entry)}`,
+  );
+  return `{${fields.join(",")}}`;
+}
@@ -0,0 +1,99 @@
+/**
+ * Tests for client-side session state
+ */
+
+import { describe, test, expect } from "bun:test";
+import { Session } from "./session.js";
+
+describe("Session", () => {
+  test("should build headers from the initial state", () => {
+    const session = new Session({
+      catalog: "tpch",
+      schema: "tiny",
+      properties: { query_max_run_time: "1h", "hive.note": "a,b" },
+      roles: { hive: "ROLE{admin}" },
+      headers: { "x-trino-user": "alice", "x-trino-schema": "sf1" },
+    });
+
+    expect(session.headers).toEqual({
+      "x-trino-user": "alice",
+      "x-trino-catalog": "tpch",
+      "x-trino-schema": "tiny",
+      "x-trino-session": "query_max_run_time=1h,hive.note=a%2Cb",
+      "x-trino-role": "hive=ROLE{admin}",
+    });
+    expect(session.properties).toEqual({ query_max_run_time: "1h", "hive.note": "a,b" });
+    expect(session.roles).toEqual({ hive: "ROLE{admin}" });
+  });
+
+  test("should apply catalog, schema and path changes", () => {
+    const session = new Session({ catalog: "tpch" });
+    session.update(
+      new Headers({
+        "X-Trino-Set-Catalog": "hive",
+        "X-Trino-Set-Schema": "web",
+        "X-Trino-Set-Path": "hive.web",
+      }),
+    );
+
+    expect([session.catalog, session.schema, session.path]).toEqual(["hive", "web", "hive.web"]);
+  });
+
+  test("should set, replace and clear session properties", () => {
+    const session = new Session({ properties: { a: "1" } });
+
+    const headers = new Headers();
+    headers.append("X-Trino-Set-Session", "a=2");
+    headers.append("X-Trino-Set-Session", "b=hello+world");
+    session.update(headers);
+    expect(session.properties).toEqual({ a: "2", b: "hello world" });
+
+    session.update(new Headers({ "X-Trino-Clear-Session": "a" }));
+    expect(session.properties).toEqual({ b: "hello world" });
+    expect(session.headers["x-trino-session"]).toBe("b=hello+world");
+  });
+
+  test("should track prepared statements", () => {
+    const session = new Session();
+    session.update(new Headers({ "X-Trino-Added-Prepare": "q1=SELECT+%3F" }));
+    session.update(new Headers({ "X-Trino-Added-Prepare": "q2=SELECT+1" }));
+    expect(session.preparedStatements).toEqual({ q1: "SELECT ?", q2: "SELECT 1" });
+
+    session.update(new Headers({ "X-Trino-Deallocated-Prepare": "q1" }));
+    expect(session.preparedStatements).toEqual({ q2: "SELECT 1" });
+  });
+
+  test("should add a statement to the headers without changing the session", () => {
+    const session = new Session();
+    const headers = session.headersWithStatement("stmt", "SELECT ?, 'a,b'");
+
+    expect(headers["x-trino-prepared-statement"]).toBe("stmt=SELECT%20%3F%2C%20'a%2Cb'");
+    expect(session.preparedStatements).toEqual({});
+  });
+
+  test("should track transactions and roles", () => {
+    const session = new Session();
+    session.update(
+      new Headers({ "X-Trino-Started-Transaction-Id": "tx1", "X-Trino-Set-Role": "system=ALL" }),
+    );
+    expect(session.transactionId).toBe("tx1");
+    expect(session.roles).toEqual({ system: "ALL" });
+
+    session.update(new Headers({ "X-Trino-Clear-Transaction-Id": "true" }));
+    expect(session.transactionId).toBeUndefined();
+  });
+
+  test("should switch and reset the authorization user", () => {
+    const session = new Session({ headers: { "x-trino-user": "alice" } });
+
+    session.update(new Headers({ "X-Trino-Set-Authorization-User": "bob" }));
+    expect(session.headers).toMatchObject({
+      "x-trino-user": "bob",
+      "x-trino-original-user": "alice",
+    });
+
+    session.update(new Headers({ "X-Trino-Reset-Authorization-User": "true" }));
+    expect(session.headers["x-trino-user"]).toBe("alice");
+    expect(session.headers["x-trino-original-user"]).toBeUndefined();
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Client-side session state
+ * Trino sessions are stateless on the server: the client sends its catalog, schema, properties, prepared
+ * statements, etc. as request headers and applies the changes the server instructs via response headers
+ *
+ * @see https://trino.io/docs/current/develop/client-protocol.html#client-request-headers
+ */
+
+import type { ClientRequestHeaders, ClientResponseHeaders } from "./protocol.js";
+
+export interface SessionOptions {
+  /** Initial catalog (x-trino-catalog) */
+  catalog?: string;
+  /** Initial schema (x-trino-schema) */
+  schema?: string;
+  /** Initial SQL path (x-trino-path) */
+  path?: string;
+  /** Initial session properties, keyed by property name (e.g., { query_max_run_time: "1h" }) */
+  properties?: Record<string, string>;
+  /** Initial roles, keyed by catalog or "system" (e.g., { hive: "ROLE{admin}" }) */
+  roles?: Record<string, string>;
+  /** Initial request headers of the session (e.g., x-trino-user, x-trino-time-zone) */
+  headers?: ClientRequestHeaders;
+}
+
+/**
+ * Independent logical session
+ * Queries executed with a session (QueryOptions.session) send its state and apply the changes made by
+ * statements such as USE, SET SESSION, PREPARE, START TRANSACTION or SET ROLE to it, without
+ * affecting other sessions of the same client
+ */
+export class Session {
+  private state: ClientRequestHeaders;
+
+  constructor(options: SessionOptions = {}) {
+    let state: ClientRequestHeaders = { ...options.headers };
+    if (options.catalog !== undefined) {
+      state["x-trino-catalog"] = options.catalog;
+    }
+    if (options.schema !== undefined) {
+      state["x-trino-schema"] = options.schema;
+    }
+    if (options.path !== undefined) {
+      state["x-trino-path"] = options.path;
+    }
+    for (const [name, value] of Object.entries(options.properties ?? {})) {
+      state = setEntry(state, "x-trino-session", name, encodeURIComponent(value));
+    }
+    for (const [catalog, role] of Object.entries(options.roles ?? {})) {
+      state = setEntry(state, "x-trino-role", catalog, role);
+    }
+    this.state = state;
+  }
+
+  /** Request headers that carry the session state */
+  get headers(): ClientRequestHeaders {
+    return { ...this.state };
+  }
+
+  get catalog(): string | undefined {
+    return this.state["x-trino-catalog"];
+  }
+
+  get schema(): string | undefined {
+    return this.state["x-trino-schema"];
+  }
+
+  get path(): string | undefined {
+    return this.state["x-trino-path"];
+  }
+
+  /** Session properties, keyed by property name */
+  get properties(): Record<string, string> {
+    return decodeEntries(this.state["x-trino-session"]);
+  }
+
+  /** Roles, keyed by catalog or "system" */
+  get roles(): Record<string, string> {
+    return Object.fromEntries(
+      entries(this.state["x-trino-role"]).map((entry) => splitEntry(entry)),
+    );
+  }
+
+  /** SQL of the prepared statements, keyed by statement name */
+  get preparedStatements(): Record<string, string> {
+    return decodeEntries(this.state["x-trino-prepared-statement"]);
+  }
+
+  /** ID of the open transaction, if any */
+  get transactionId(): string | undefined {
+    return this.state["x-trino-transaction-id"];
+  }
+
+  /**
+   * Get the session headers with an additional prepared statement, without changing the session
+   * @param name - Name of the prepared statement
+   * @param sql - SQL of the statement
+   */
+  headersWithStatement(name: string, sql: string): ClientRequestHeaders {
+    return setEntry(this.state, "x-trino-prepared-statement", name, encodeURIComponent(sql));
+  }
+
+  /**
+   * Apply the session changes instructed by the response headers of a query
+   * @param responseHeaders - Headers of a protocol response
+   */
+  update(responseHeaders: Headers): void {
+    const updates: ClientResponseHeaders = {};
+
+    // Headers API returns lowercase header names
+    responseHeaders.forEach((value, key) => {
+      updates[key as keyof ClientResponseHeaders] = value;
+    });
+
+    let state: ClientRequestHeaders = { ...this.state };
+
+    // Process response headers to update session state
+    if (updates["x-trino-set-catalog"]) {
+      state["x-trino-catalog"] = updates["x-trino-set-catalog"];
+    }
+    if (updates["x-trino-set-schema"]) {
+      state["x-trino-schema"] = updates["x-trino-set-schema"];
+    }
+    if (updates["x-trino-set-path"]) {
+      state["x-trino-path"] = updates["x-trino-set-path"];
+    }
+    // Repeated headers are combined into one comma-separated value, which the entry headers share
+    for (const entry of entries(updates["x-trino-set-session"])) {
+      state = setEntry(state, "x-trino-session", ...splitEntry(entry));
+    }
+    for (const name of entries(updates["x-trino-clear-session"])) {
+      state = setEntry(state, "x-trino-session", name);
+    }
+    for (const entry of entries(updates["x-trino-set-role"])) {
+      state = setEntry(state, "x-trino-role", ...splitEntry(entry));
+    }
+    for (const entry of entries(updates["x-trino-added-prepare"])) {
+      state = setEntry(state, "x-trino-prepared-statement", ...splitEntry(entry));
+    }
+    for (const name of entries(updates["x-trino-deallocated-prepare"])) {
+      state = setEntry(state, "x-trino-prepared-statement", name);
+    }
+    if (updates["x-trino-started-transaction-id"]) {
+      state["x-trino-transaction-id"] = updates["x-trino-started-transaction-id"];
+    }
+    if (updates["x-trino-clear-transaction-id"]) {
+      delete state["x-trino-transaction-id"];
+    }
+    if (updates["x-trino-set-authorization-user"]) {
+      // Keep original user if setting authorization
+      const originalUser = state["x-trino-original-user"] ?? state["x-trino-user"];
+      state["x-trino-user"] = updates["x-trino-set-authorization-user"];
+      if (originalUser) {
+        state["x-trino-original-user"] = originalUser;
+      }
+    }
+    if (updates["x-trino-reset-authorization-user"]) {
+      if (state["x-trino-original-user"]) {
+        state["x-trino-user"] = state["x-trino-original-user"];
+        delete state["x-trino-original-user"];
+      }
+    }
+
+    this.state = state;
+  }
+}
+
+/**
+ * Split a comma-separated header value into its entries
+ */
+function entries(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Split a name=value entry at the first "="
+ */
+function splitEntry(entry: string): [string, string] {
+  const separator = entry.indexOf("=");
+  return separator === -1 ? [entry, ""] : [entry.slice(0, separator), entry.slice(separator + 1)];
+}
+
+/**
+ * Parse name=url-encoded value entries into a record
+ */
+function decodeEntries(value: string | undefined): Record<string, string> {
+  return Object.fromEntries(
+    entries(value).map((entry) => {
+      const [name, encoded] = splitEntry(entry);
+      // Values are form-encoded, so a + stands for a space
+      return [name, decodeURIComponent(encoded.replaceAll("+", " "))];
+    }),
+  );
+}
+
+/**
+ * Add, replace or remove (when value is omitted) a name=value entry of a comma-separated header
+ */
+function setEntry(
+  headers: ClientRequestHeaders,
+  header: "x-trino-session" | "x-trino-role" | "x-trino-prepared-statement",
+  name: string,
+  value?: string,
+): ClientRequestHeaders {
+  const updated = entries(headers[header]).filter((entry) => splitEntry(entry)[0] !== name);
+  if (value !== undefined) {
+    updated.push(`${name}=${value}`);
+  }
+  return { ...headers, [header]: updated.join(",") || undefined };
+}
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for type name parsing
+ */
+
+import { describe, test, expect } from "bun:test";
+import { ParameterKind, type ClientTypeSignature } from "./protocol.js";
+import { parseTypeSignature, splitTopLevel } from "./signature.js";
+
+function type(rawType: string, ...args: ClientTypeSignature["arguments"]): ClientTypeSignature {
+  return { rawType: rawType as ClientTypeSignature["rawType"], arguments: args };
+}
+
+function long(value: number) {
+  return { kind: ParameterKind.LONG, value } as const;
+}
+
+function typeArg(signature: ClientTypeSignature) {
+  return { kind: ParameterKind.TYPE, value: signature } as const;
+}
+
+function field(name: string | undefined, signature: ClientTypeSignature) {
+  return {
+    kind: ParameterKind.NAMED_TYPE,
+    value:
+      name === undefined
+        ? { typeSignature: signature }
+        : { fieldName: { name }, typeSignature: signature },
+  } as const;
+}
+
+describe("parseTypeSignature", () => {
+  test("should parse simple and parameterized types", () => {
+    expect(parseTypeSignature("bigint")).toEqual(type("bigint"));
+    expect(parseTypeSignature("varchar(25)")).toEqual(type("varchar", long(25)));
+    expect(parseTypeSignature("decimal(12, 2)")).toEqual(type("decimal", long(12), long(2)));
+  });
+
+  test("should give unbounded varchar the length of query result signatures", () => {
+    expect(parseTypeSignature("varchar")).toEqual(type("varchar", long(2147483647)));
+  });
+
+  test("should parse multi-word types with parameters before the suffix", () => {
+    expect(parseTypeSignature("timestamp(6) with time zone")).toEqual(
+      type("timestamp with time zone", long(6)),
+    );
+    expect(parseTypeSignature("interval day to second")).toEqual(type("interval day to second"));
+  });
+
+  test("should parse nested types", () => {
+    expect(parseTypeSignature("map(varchar(3), array(bigint))")).toEqual(
+      type(
+        "map",
+        typeArg(type("varchar", long(3))),
+        typeArg(type("array", typeArg(type("bigint")))),
+      ),
+    );
+  });
+
+  test("should parse named, quoted and anonymous row fields", () => {
+    expect(
+      parseTypeSignature(
+        'row(id bigint, "first ""name""" varchar(10), at timestamp(3) with time zone, double, interval year to month)',
+      ),
+    ).toEqual(
+      type(
+        "row",
+        field("id", type("bigint")),
+        field('first "name"', type("varchar", long(10))),
+        field("at", type("timestamp with time zone", long(3))),
+        field(undefined, type("double")),
+        field(undefined, type("interval year to month")),
+      ),
+    );
+  });
+
+  test("should reject malformed type names", () => {
+    expect(() => parseTypeSignature("")).toThrow(TypeError);
+    expect(() => parseTypeSignature("array(bigint")).toThrow('Expected ")"');
+    expect(() => parseTypeSignature("bigint)")).toThrow('Unexpected ")"');
+  });
+});
+
+describe("splitTopLevel", () => {
+  test("should split on the commas outside of parentheses, brackets and braces", () => {
+    expect(splitTopLevel("bigint, map(varchar, double)")).toEqual([
+      "bigint",
+      "map(varchar, double)",
+    ]);
+    expect(splitTopLevel("a := f(x, y), b = [1, 2], c = {k: 1, v: 2}")).toEqual([
+      "a := f(x, y)",
+      "b = [1, 2]",
+      "c = {k: 1, v: 2}",
+    ]);
+    expect(splitTopLevel("")).toEqual([]);
+  });
+});
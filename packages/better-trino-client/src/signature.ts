@@ -0,0 +1,253 @@
+/**
+ * Parsing of Trino type names into type signatures
+ * Metadata (information_schema, DESCRIBE, SHOW FUNCTIONS, ...) reports types as display names such as
+ * "decimal(10,2)" or "row(id bigint, tags array(varchar))", whereas query results carry the same type as a
+ * ClientTypeSignature
+ *
+ * @see https://trino.io/docs/current/language/types.html
+ */
+
+import { ParameterKind, type ClientStandardType, type ClientTypeSignature } from "./protocol.js";
+
+/**
+ * Length argument of unbounded varchar, as Trino reports it in type signatures
+ */
+const UNBOUNDED_VARCHAR_LENGTH = 2147483647;
+
+/**
+ * Type names made of several words, which a row field of a single-word type could otherwise be mistaken for
+ */
+const MULTI_WORD_TYPES = new Set([
+  "double precision",
+  "interval day to second",
+  "interval year to month",
+  "time with time zone",
+  "timestamp with time zone",
+]);
+
+/**
+ * Parse a Trino type name into a type signature
+ *
+ * - Parameters become LONG arguments (e.g., varchar(10), decimal(10,2), timestamp(3) with time zone)
+ * - array and map parameters become TYPE arguments
+ * - row fields become NAMED_TYPE arguments, without a fieldName for anonymous fields
+ * - Unbounded varchar gets the same length argument as in the signatures of query results
+ *
+ * @example
+ * parseTypeSignature("map(varchar, array(bigint))")
+ * // { rawType: "map", arguments: [{ kind: "TYPE", value: { rawType: "varchar", ... } }, ...] }
+ * @throws TypeError if the type name is malformed
+ */
+export function parseTypeSignature(type: string): ClientTypeSignature {
+  const parser = new TypeParser(type);
+  const signature = parser.parseType();
+  parser.expectEnd();
+  return signature;
+}
+
+class TypeParser {
+  private position = 0;
+
+  constructor(private readonly input: string) {}
+
+  parseType(): ClientTypeSignature {
+    const words = this.words();
+    if (words.length === 0) {
+      throw this.error("Expected a type name");
+    }
+    const args = this.peek() === "(" ? this.parseArguments(words.join(" ")) : [];
+    // Suffixes after the parameters, as in timestamp(3) with time zone
+    const suffix = this.words();
+    const rawType = [...words, ...suffix].join(" ") as ClientStandardType;
+
+    if (rawType === "varchar" && args.length === 0) {
+      args.push({ kind: ParameterKind.LONG, value: UNBOUNDED_VARCHAR_LENGTH });
+    }
+    return { rawType, arguments: args };
+  }
+
+  expectEnd(): void {
+    this.skipWhitespace();
+    if (this.position < this.input.length) {
+      throw this.error(`Unexpected "${this.input[this.position]}"`);
+    }
+  }
+
+  private parseArguments(rawType: string): ClientTypeSignature["arguments"] {
+    this.position++;
+    const args: ClientTypeSignature["arguments"] = [];
+    do {
+      args.push(
+        rawType === "row"
+          ? this.parseField()
+          : /\d/.test(this.peek())
+            ? { kind: ParameterKind.LONG, value: this.number() }
+            : { kind: ParameterKind.TYPE, value: this.parseType() },
+      );
+    } while (this.consume(","));
+
+    if (!this.consume(")")) {
+      throw this.error('Expected ")"');
+    }
+    return args;
+  }
+
+  private parseField(): ClientTypeSignature["arguments"][number] {
+    const start = this.position;
+    if (this.peek() === '"') {
+      const name = this.quotedIdentifier();
+      return {
+        kind: ParameterKind.NAMED_TYPE,
+        value: { fieldName: { name }, typeSignature: this.parseType() },
+      };
+    }
+
+    // A field is named when the words before its parameters are not a type by themselves
+    const words = this.words();
+    this.position = start;
+    if (words.length >= 2 && !MULTI_WORD_TYPES.has(words.join(" "))) {
+      const name = this.word()!;
+      return {
+        kind: ParameterKind.NAMED_TYPE,
+        value: { fieldName: { name }, typeSignature: this.parseType() },
+      };
+    }
+    return { kind: ParameterKind.NAMED_TYPE, value: { typeSignature: this.parseType() } };
+  }
+
+  private words(): string[] {
+    const words: string[] = [];
+    let word: string | undefined;
+    while ((word = this.word()) !== undefined) {
+      words.push(word);
+    }
+    return words;
+  }
+
+  private word(): string | undefined {
+    this.skipWhitespace();
+    const match = /^[A-Za-z_][\w$]*/.exec(this.input.slice(this.position));
+    if (!match) {
+      return undefined;
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private number(): number {
+    const match = /^\d+/.exec(this.input.slice(this.position))!;
+    this.position += match[0].length;
+    return Number(match[0]);
+  }
+
+  private quotedIdentifier(): string {
+    let name = "";
+    this.position++;
+    while (this.position < this.input.length) {
+      const char = this.input[this.position++]!;
+      if (char !== '"') {
+        name += char;
+      } else if (this.input[this.position] === '"') {
+        // Embedded quotes are doubled
+        name += '"';
+        this.position++;
+      } else {
+        return name;
+      }
+    }
+    throw this.error("Unterminated quoted identifier");
+  }
+
+  private peek(): string {
+    this.skipWhitespace();
+    return this.input[this.position] ?? "";
+  }
+
+  private consume(char: string): boolean {
+    if (this.peek() !== char) {
+      return false;
+    }
+    this.position++;
+    return true;
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.input[this.position] ?? "")) {
+      this.position++;
+    }
+  }
+
+  private error(message: string): TypeError {
+    return new TypeError(`${message} at position ${this.position} of type "${this.input}"`);
+  }
+}
+
+/**
+ * Name and type of a row field
+ */
+export interface RowField {
+  /** Field name, or `field0`, `field1`, ... for anonymous fields (as in decoded rows) */
+  name: string;
+  type: ClientTypeSignature | undefined;
+}
+
+/**
+ * Get the type signature of the type argument at the given index (e.g., the element type of an array)
+ */
+export function typeArgument(
+  signature: ClientTypeSignature,
+  index: number,
+): ClientTypeSignature | undefined {
+  const argument = signature.arguments[index];
+  if (argument?.kind === ParameterKind.TYPE) {
+    return argument.value;
+  }
+  if (argument?.kind === ParameterKind.NAMED_TYPE) {
+    return argument.value.typeSignature;
+  }
+  return undefined;
+}
+
+/**
+ * Get the value of the numeric type argument at the given index (e.g., the precision of a decimal)
+ */
+export function longArgument(signature: ClientTypeSignature, index: number): number | undefined {
+  const argument = signature.arguments[index];
+  return argument?.kind === ParameterKind.LONG ? argument.value : undefined;
+}
+
+/**
+ * Get the fields of a row type, in order
+ */
+export function rowFields(signature: ClientTypeSignature): RowField[] {
+  return signature.arguments.map((argument, index) => ({
+    name:
+      argument.kind === ParameterKind.NAMED_TYPE
+        ? (argument.value.fieldName?.name ?? `field${index}`)
+        : `field${index}`,
+    type: typeArgument(signature, index),
+  }));
+}
+
+/**
+ * Split a comma-separated list, ignoring the commas inside parentheses, brackets and braces
+ * @example splitTopLevel("bigint, map(varchar, double)") // ["bigint", "map(varchar, double)"]
+ */
+export function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < list.length; index++) {
+    const char = list[index]!;
+    if ("([{".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char)) {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      parts.push(list.slice(start, index).trim());
+      start = index + 1;
+    }
+  }
+  const last = list.slice(start).trim();
+  return last ? [...parts, last] : parts;
+}
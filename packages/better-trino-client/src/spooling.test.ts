@@ -0,0 +1,160 @@
+/**
+ * Tests for the spooling client protocol
+ */
+
+import { describe, test, expect, afterAll } from "bun:test";
+import { Trino } from "./index.js";
+import {
+  decodeSegment,
+  lz4Decompress,
+  requestedEncodings,
+  segmentDecompressors,
+} from "./spooling.js";
+import type { SegmentMetadata } from "./protocol.js";
+import { startStubServer } from "./test-server.js";
+
+const encoder = new TextEncoder();
+
+function metadata(rowOffset: number, rowsCount: number, extra?: Partial<SegmentMetadata>) {
+  return { rowOffset, rowsCount, segmentSize: 0, ...extra };
+}
+
+describe("lz4Decompress", () => {
+  test("should decompress literals and overlapping matches", () => {
+    // "abc" followed by a 9 byte match at offset 3, then the literals "XYZZY"
+    const block = new Uint8Array([0x35, 97, 98, 99, 3, 0, 0x50, 88, 89, 90, 90, 89]);
+    expect(new TextDecoder().decode(lz4Decompress(block, 17))).toBe("abcabcabcabcXYZZY");
+  });
+
+  test("should decompress extended literal lengths", () => {
+    const literals = encoder.encode("x".repeat(20));
+    const block = new Uint8Array([0xf0, 20 - 15, ...literals]);
+    expect(lz4Decompress(block, 20)).toEqual(literals);
+  });
+
+  test("should reject corrupt blocks", () => {
+    expect(() => lz4Decompress(new Uint8Array([0x10, 97, 9, 0]), 10)).toThrow(/offset/);
+  });
+});
+
+describe("decodeSegment", () => {
+  test("should parse uncompressed segments", async () => {
+    const rows = await decodeSegment(
+      encoder.encode('[[1,"a"],[2,"b"]]'),
+      "json+zstd",
+      metadata(0, 2),
+      {},
+    );
+    expect(rows).toEqual([
+      [1, "a"],
+      [2, "b"],
+    ]);
+  });
+
+  test("should decompress compressed segments", async () => {
+    const text = encoder.encode("[[1]]");
+    const rows = await decodeSegment(
+      Bun.zstdCompressSync(text),
+      "json+zstd",
+      metadata(0, 1, { uncompressedSize: text.length }),
+      segmentDecompressors(),
+    );
+    expect(rows).toEqual([[1]]);
+  });
+
+  test("should reject unknown encodings", async () => {
+    await expect(decodeSegment(encoder.encode("[]"), "arrow", metadata(0, 0), {})).rejects.toThrow(
+      /Unsupported/,
+    );
+  });
+});
+
+describe("requestedEncodings", () => {
+  test("should prefer compressed encodings with available decompressors", () => {
+    expect(requestedEncodings()).toBe("json+zstd,json+lz4,json");
+    expect(requestedEncodings({ encodings: ["json"] })).toBe("json");
+  });
+});
+
+describe("Spooled query execution", () => {
+  const server = startStubServer({
+    pages: () => [
+      {
+        columns: [{ name: "n", type: "integer" }],
+        data: {
+          encoding: "json",
+          segments: [
+            {
+              type: "spooled",
+              uri: `${server.url}segments/2`,
+              ackUri: `${server.url}ack/2`,
+              headers: { "x-segment-token": ["secret"] },
+              metadata: metadata(1, 2),
+            },
+            {
+              type: "inline",
+              data: Buffer.from("[[1]]").toString("base64"),
+              metadata: metadata(0, 1),
+            },
+          ],
+        },
+      },
+    ],
+    handle: (request) => {
+      if (request.path === "/segments/2") {
+        return request.headers.get("x-segment-token") === "secret"
+          ? new Response("[[2],[3]]")
+          : new Response(null, { status: 403 });
+      }
+      return request.path.startsWith("/ack/") ? new Response(null, { status: 204 }) : undefined;
+    },
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  test("should negotiate the encoding and present segments as inline rows", async () => {
+    const client = new Trino({ baseUrl: server.url, spooling: { encodings: ["json"] } });
+    const rows: unknown[][] = [];
+
+    for await (const result of client.executeQuery("SELECT n FROM t")) {
+      expect(result.ok).toBe(true);
+      if (result.ok && result.value.data) {
+        rows.push(...result.value.data);
+      }
+    }
+
+    expect(rows).toEqual([[1], [2], [3]]);
+    expect(server.requests[0]).toMatchObject({ path: "/v1/statement" });
+    expect(server.requests[0]!.headers.get("x-trino-query-data-encoding")).toBe("json");
+
+    // Acknowledgement is sent in the background
+    await Bun.sleep(10);
+    expect(server.requests.map((r) => r.path)).toContain("/ack/2");
+  });
+
+  test("should send only the segment headers to segment and acknowledgement URIs", async () => {
+    const clients = [
+      { auth: { type: "token", getToken: async () => "token" }, authorization: "Bearer token" },
+      {
+        auth: { type: "basic", username: "alice", password: "secret" },
+        authorization: "Basic YWxpY2U6c2VjcmV0",
+      },
+    ] as const;
+
+    for (const { auth, authorization } of clients) {
+      server.reset();
+      const client = new Trino({ baseUrl: server.url, spooling: { encodings: ["json"] }, auth });
+      expect((await client.query("SELECT n FROM t")).ok).toBe(true);
+
+      await Bun.sleep(10);
+      expect(server.requests[0]!.headers.get("authorization")).toBe(authorization);
+      for (const path of ["/segments/2", "/ack/2"]) {
+        const request = server.requests.find((r) => r.path === path);
+        expect(request?.headers.get("x-segment-token")).toBe("secret");
+        expect(request?.headers.get("authorization")).toBeNull();
+      }
+    }
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Spooling client protocol support
+ * Negotiates a query data encoding and decodes the segments returned by the server
+ *
+ * @see https://trino.io/docs/current/client/client-protocol.html#spooling-protocol
+ */
+
+import * as zlib from "node:zlib";
+import type { EncodedQueryData, SegmentMetadata } from "./protocol.js";
+
+/**
+ * Decompresses the bytes of a segment
+ * @param data - The compressed segment bytes
+ * @param uncompressedSize - The size of the segment before compression
+ */
+export type SegmentDecompressor = (
+  data: Uint8Array,
+  uncompressedSize: number,
+) => Uint8Array | Promise<Uint8Array>;
+
+export interface SpoolingOptions {
+  /**
+   * Encodings to request, in order of preference
+   * Defaults to every encoding with an available decompressor, preferring compressed encodings
+   */
+  encodings?: string[];
+  /** Decompressors keyed by encoding (e.g., "json+zstd"), used instead of the built-in ones */
+  decompressors?: Record<string, SegmentDecompressor>;
+}
+
+/**
+ * Encodings understood by the client, in order of preference
+ */
+const KNOWN_ENCODINGS = ["json+zstd", "json+lz4", "json"];
+
+/**
+ * Get the decompressors available for each encoding, including the built-in ones
+ * zstd is only built in when the runtime provides it (Bun, or Node with zlib zstd support)
+ */
+export function segmentDecompressors(
+  options?: SpoolingOptions,
+): Record<string, SegmentDecompressor> {
+  const decompressors: Record<string, SegmentDecompressor> = {
+    "json+lz4": lz4Decompress,
+  };
+
+  const zstd = zstdDecompressor();
+  if (zstd) {
+    decompressors["json+zstd"] = zstd;
+  }
+
+  return { ...decompressors, ...options?.decompressors };
+}
+
+/**
+ * Get the value of the x-trino-query-data-encoding request header
+ */
+export function requestedEncodings(options?: SpoolingOptions): string {
+  if (options?.encodings) {
+    return options.encodings.join(",");
+  }
+
+  const decompressors = segmentDecompressors(options);
+  return KNOWN_ENCODINGS.filter((encoding) => encoding === "json" || decompressors[encoding]).join(
+    ",",
+  );
+}
+
+/**
+ * Check whether query data was delivered as encoded segments
+ */
+export function isEncodedQueryData(data: unknown): data is EncodedQueryData {
+  return typeof data === "object" && data !== null && !Array.isArray(data) && "segments" in data;
+}
+
+/**
+ * Decode the bytes of a segment into rows
+ * @param data - The segment bytes, as received from the server
+ * @param encoding - The encoding chosen by the server
+ * @param metadata - The segment metadata
+ * @param decompressors - Decompressors keyed by encoding
+ * @param parse - Parses the decompressed JSON text
+ */
+export async function decodeSegment(
+  data: Uint8Array,
+  encoding: string,
+  metadata: SegmentMetadata,
+  decompressors: Record<string, SegmentDecompressor>,
+  parse: (text: string) => unknown = JSON.parse,
+): Promise<unknown[][]> {
+  const [format] = encoding.split("+");
+  if (format !== "json") {
+    throw new Error(`Unsupported query data encoding: ${encoding}`);
+  }
+
+  let bytes = data;
+  // Segments are only compressed when it reduces their size, which is signalled by uncompressedSize
+  if (encoding !== "json" && metadata.uncompressedSize !== undefined) {
+    const decompress = decompressors[encoding];
+    if (!decompress) {
+      throw new Error(`No decompressor available for query data encoding: ${encoding}`);
+    }
+    bytes = await decompress(data, metadata.uncompressedSize);
+  }
+
+  return parse(new TextDecoder().decode(bytes)) as unknown[][];
+}
+
+/**
+ * Decompress an LZ4 block (raw block format, without frame headers)
+ *
+ * @see https://github.com/lz4/lz4/blob/dev/doc/lz4_Block_format.md
+ */
+export function lz4Decompress(data: Uint8Array, uncompressedSize: number): Uint8Array {
+  const output = new Uint8Array(uncompressedSize);
+  let input = 0;
+  let position = 0;
+
+  const readLength = (length: number): number => {
+    if (length !== 15) {
+      return length;
+    }
+    let byte: number;
+    do {
+      byte = data[input++]!;
+      length += byte;
+    } while (byte === 255 && input < data.length);
+    return length;
+  };
+
+  while (input < data.length) {
+    const token = data[input++]!;
+
+    const literalLength = readLength(token >>> 4);
+    if (input + literalLength > data.length || position + literalLength > output.length) {
+      throw new Error("Corrupt LZ4 block: literals out of bounds");
+    }
+    output.set(data.subarray(input, input + literalLength), position);
+    input += literalLength;
+    position += literalLength;
+
+    // The last sequence only contains literals
+    if (input >= data.length) {
+      break;
+    }
+
+    const offset = data[input]! | (data[input + 1]! << 8);
+    input += 2;
+    if (offset === 0 || offset > position) {
+      throw new Error("Corrupt LZ4 block: invalid match offset");
+    }
+
+    const matchLength = readLength(token & 0x0f) + 4;
+    if (position + matchLength > output.length) {
+      throw new Error("Corrupt LZ4 block: match out of bounds");
+    }
+    // Copy byte by byte since the match may overlap the bytes being written
+    for (let i = 0; i < matchLength; i++) {
+      output[position] = output[position - offset]!;
+      position++;
+    }
+  }
+
+  if (position !== uncompressedSize) {
+    throw new Error(`Corrupt LZ4 block: expected ${uncompressedSize} bytes, got ${position}`);
+  }
+
+  return output;
+}
+
+/**
+ * Get the zstd decompressor provided by the runtime, if any
+ */
+function zstdDecompressor(): SegmentDecompressor | undefined {
+  const bun = (globalThis as { Bun?: { zstdDecompressSync?: (data: Uint8Array) => Uint8Array } })
+    .Bun;
+  if (bun?.zstdDecompressSync) {
+    return (data) => bun.zstdDecompressSync!(data);
+  }
+
+  const node = zlib as { zstdDecompressSync?: (data: Uint8Array) => Uint8Array };
+  if (node.zstdDecompressSync) {
+    return (data) => node.zstdDecompressSync!(data);
+  }
+
+  return undefined;
+}
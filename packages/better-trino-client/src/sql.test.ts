@@ -0,0 +1,64 @@
+/**
+ * Tests for the sql tagged template
+ */
+
+import { describe, test, expect } from "bun:test";
+import { sql, SqlFragment } from "./sql.js";
+
+describe("sql", () => {
+  test("should render interpolated values as literals", () => {
+    const name = "O'Brien";
+    const query = sql`SELECT * FROM customer WHERE name = ${name} AND custkey > ${10}`;
+
+    expect(query).toBeInstanceOf(SqlFragment);
+    expect(query.text).toBe("SELECT * FROM customer WHERE name = 'O''Brien' AND custkey > 10");
+    expect(String(query)).toBe(query.text);
+  });
+
+  test("should not let negative values after a minus sign comment out the rest of the query", () => {
+    const tenant = "acme";
+    expect(sql`SELECT * FROM orders WHERE id = 10-${-1} AND tenant = ${tenant}`.text).toBe(
+      "SELECT * FROM orders WHERE id = 10-(-1) AND tenant = 'acme'",
+    );
+    expect(sql`SELECT 5-${-2n}, 5-${[-3]}`.text).toBe("SELECT 5-(-2), 5-ARRAY[(-3)]");
+  });
+
+  test("should quote identifiers", () => {
+    expect(sql.id("tpch", "tiny", "orders").text).toBe('"tpch"."tiny"."orders"');
+    expect(sql.id('we"ird').text).toBe('"we""ird"');
+  });
+
+  test("should nest fragments without escaping them", () => {
+    const filter = sql`orderstatus = ${"O"}`;
+    const query = sql`SELECT * FROM ${sql.id("orders")} WHERE ${filter} AND totalprice > ${1.5}`;
+
+    expect(query.text).toBe(
+      `SELECT * FROM "orders" WHERE orderstatus = 'O' AND totalprice > DOUBLE '1.5'`,
+    );
+    expect(query.values).toEqual(["O", 1.5]);
+    expect(query.strings.length).toBe(query.values.length + 1);
+  });
+
+  test("should join values and fragments", () => {
+    expect(sql`IN (${sql.join([1, "a", null])})`.text).toBe("IN (1, 'a', NULL)");
+    expect(sql.join([sql`a = ${1}`, sql`b = ${2}`], sql` AND `).text).toBe("a = 1 AND b = 2");
+    expect(sql.join([]).text).toBe("");
+  });
+
+  test("should include raw text verbatim", () => {
+    expect(sql`SELECT ${sql.raw("count(*)")} FROM t`.text).toBe("SELECT count(*) FROM t");
+  });
+
+  test("should expose a debug form with placeholders", () => {
+    const query = sql`SELECT * FROM ${sql.id("t")} WHERE a = ${1} AND b IN (${sql.join(["x", "y"])})`;
+
+    expect(query.debug()).toEqual({
+      template: 'SELECT * FROM "t" WHERE a = ? AND b IN (?, ?)',
+      values: [1, "x", "y"],
+    });
+  });
+
+  test("should throw when rendering values that are not literals", () => {
+    expect(() => sql`SELECT ${new Date(Number.NaN)}`.text).toThrow("Invalid Date");
+  });
+});
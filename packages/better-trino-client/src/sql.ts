@@ -0,0 +1,127 @@
+/**
+ * Tagged template for building SQL from composable fragments
+ * Interpolated values are rendered as escaped literals, and fragments nest without re-escaping
+ *
+ * @example
+ * const table = sql.id("tpch", "tiny", "orders");
+ * const query = sql`SELECT * FROM ${table} WHERE custkey = ${370} AND orderstatus IN (${sql.join(["O", "P"])})`;
+ * query.text; // SELECT * FROM "tpch"."tiny"."orders" WHERE custkey = 370 AND orderstatus IN ('O', 'P')
+ */
+
+import { renderLiteral, type QueryParameter } from "./literals.js";
+
+/**
+ * Value that can be interpolated into a sql template: a nested fragment or a literal value
+ */
+export type SqlValue = SqlFragment | QueryParameter;
+
+/**
+ * Inspectable form of a fragment, for logging without rendering values into the SQL
+ */
+export interface SqlDebug {
+  /** SQL text with a ? in place of each value */
+  readonly template: string;
+  /** Values in the order of their placeholders */
+  readonly values: readonly QueryParameter[];
+}
+
+/**
+ * Composable piece of SQL
+ * Holds the SQL text around each interpolated value, with nested fragments already flattened in
+ */
+export class SqlFragment {
+  /** SQL text segments; there is always one more segment than values */
+  readonly strings: readonly string[];
+  /** Interpolated values, rendered as literals between the segments */
+  readonly values: readonly QueryParameter[];
+
+  constructor(strings: readonly string[], values: readonly SqlValue[]) {
+    const flatStrings: string[] = [];
+    const flatValues: QueryParameter[] = [];
+    // Segment being built, which nested fragments extend on both sides
+    let segment = strings[0] ?? "";
+
+    values.forEach((value, index) => {
+      if (value instanceof SqlFragment) {
+        segment += value.strings[0];
+        value.values.forEach((nested, nestedIndex) => {
+          flatStrings.push(segment);
+          flatValues.push(nested);
+          segment = value.strings[nestedIndex + 1]!;
+        });
+      } else {
+        flatStrings.push(segment);
+        flatValues.push(value);
+        segment = "";
+      }
+      segment += strings[index + 1] ?? "";
+    });
+    flatStrings.push(segment);
+
+    this.strings = flatStrings;
+    this.values = flatValues;
+  }
+
+  /**
+   * The SQL text with every value rendered as a literal
+   * @throws TypeError if a value cannot be represented as a literal (see renderLiteral)
+   */
+  get text(): string {
+    return this.render(this.values.map(renderLiteral));
+  }
+
+  /**
+   * Render the SQL text with already rendered literals, one per value
+   */
+  render(literals: readonly string[]): string {
+    return this.strings.reduce((text, segment, index) => text + literals[index - 1] + segment);
+  }
+
+  /**
+   * Get the SQL template and values separately, e.g. for logging
+   */
+  debug(): SqlDebug {
+    return { template: this.strings.join("?"), values: this.values };
+  }
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+/**
+ * Quote an identifier, doubling embedded double quotes
+ */
+function quoteIdentifier(name: string): string {
+  return `"${name.replaceAll('"', '""')}"`;
+}
+
+/**
+ * Build a SQL fragment, rendering interpolated values as literals and splicing in nested fragments
+ */
+export function sql(strings: TemplateStringsArray, ...values: SqlValue[]): SqlFragment {
+  return new SqlFragment(strings, values);
+}
+
+/**
+ * Build a quoted, possibly qualified identifier
+ * @example sql.id("catalog", "schema", "table") // "catalog"."schema"."table"
+ */
+sql.id = (...names: [string, ...string[]]): SqlFragment =>
+  new SqlFragment([names.map(quoteIdentifier).join(".")], []);
+
+/**
+ * Join values or fragments with a separator (default: ", ")
+ * @example sql`IN (${sql.join([1, 2, 3])})` // IN (1, 2, 3)
+ */
+sql.join = (values: readonly SqlValue[], separator: SqlFragment | string = ", "): SqlFragment => {
+  const glue = separator instanceof SqlFragment ? separator : sql.raw(separator);
+  const parts = values.flatMap((value, index) => (index === 0 ? [value] : [glue, value]));
+  return new SqlFragment(["", ...parts.map(() => "")], parts);
+};
+
+/**
+ * Include SQL text verbatim, without any escaping
+ * Never pass untrusted input to raw
+ */
+sql.raw = (text: string): SqlFragment => new SqlFragment([text], []);
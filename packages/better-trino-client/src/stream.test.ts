@@ -0,0 +1,157 @@
+/**
+ * Tests for the stream adapters
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from "bun:test";
+import { Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { QueryStreamError, Trino } from "./index.js";
+import { startStubServer } from "./test-server.js";
+
+describe("streams", () => {
+  let fail = false;
+  // Answers the poll of the third page with this status instead
+  let pollStatus: number | undefined;
+
+  // Pages: no data, two rows, one row (or a failure), one row
+  const server = startStubServer({
+    pages: () =>
+      fail
+        ? [
+            {},
+            { data: [[1], [2]] },
+            {
+              error: {
+                message: "Division by zero",
+                errorCode: 8,
+                errorName: "DIVISION_BY_ZERO",
+                errorType: "USER_ERROR",
+              },
+              stats: { state: "FAILED" },
+            },
+          ]
+        : [{}, { data: [[1], [2]] }, { data: [[3]] }, { data: [[4]] }],
+    handle: (request) =>
+      pollStatus && request.method === "GET" && request.path.endsWith("/query_1/2")
+        ? new Response("Server error", { status: pollStatus })
+        : undefined,
+  });
+  const requests = () => server.requests.map((request) => `${request.method} ${request.path}`);
+
+  beforeEach(() => {
+    server.reset();
+    fail = false;
+    pollStatus = undefined;
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  describe("stream", () => {
+    test("should stream the rows of all pages", async () => {
+      const client = new Trino({ baseUrl: server.url });
+      const rows = await Array.fromAsync(client.stream("SELECT 1"));
+      expect(rows).toEqual([[1], [2], [3], [4]]);
+    });
+
+    test("should only poll when the consumer reads", async () => {
+      const client = new Trino({ baseUrl: server.url });
+      const stream = client.stream("SELECT 1");
+      // Let a prefetching stream run ahead, if it would
+      await Bun.sleep(20);
+      expect(requests()).toEqual([]);
+
+      const reader = stream.getReader();
+      expect(await reader.read()).toEqual({ done: false, value: [1] });
+      expect(await reader.read()).toEqual({ done: false, value: [2] });
+      await Bun.sleep(20);
+      expect(requests()).toEqual(["POST /v1/statement", "GET /v1/statement/executing/query_1/1"]);
+
+      expect(await reader.read()).toEqual({ done: false, value: [3] });
+      expect(requests()).toHaveLength(3);
+    });
+
+    test("should cancel the query when the stream is cancelled", async () => {
+      const client = new Trino({ baseUrl: server.url });
+      const reader = client.stream("SELECT 1").getReader();
+      await reader.read();
+      await reader.cancel();
+
+      expect(requests()).toEqual([
+        "POST /v1/statement",
+        "GET /v1/statement/executing/query_1/1",
+        "DELETE /v1/statement/executing/query_1/2",
+      ]);
+    });
+
+    test("should error with the query error", async () => {
+      fail = true;
+      const client = new Trino({ baseUrl: server.url });
+      const error = await Array.fromAsync(client.stream("SELECT 1 / 0")).catch((e: unknown) => e);
+      expect(error).toMatchObject({ _tag: "UserError", errorName: "DIVISION_BY_ZERO" });
+    });
+
+    test("should cancel the query when a page fails", async () => {
+      pollStatus = 500;
+      const client = new Trino({ baseUrl: server.url });
+      const error = await Array.fromAsync(client.stream("SELECT 1")).catch((e: unknown) => e);
+      expect(error).toMatchObject({ _tag: "HttpError", response: { status: 500 } });
+      expect(requests()).toEqual([
+        "POST /v1/statement",
+        "GET /v1/statement/executing/query_1/1",
+        "GET /v1/statement/executing/query_1/2",
+        "DELETE /v1/statement/executing/query_1/2",
+      ]);
+    });
+  });
+
+  describe("nodeStream", () => {
+    test("should stream rows in object mode", async () => {
+      const client = new Trino({ baseUrl: server.url });
+      const readable = client.nodeStream("SELECT 1");
+      expect(readable.readableObjectMode).toBe(true);
+      expect(await Array.fromAsync(readable)).toEqual([[1], [2], [3], [4]]);
+    });
+
+    test("should only poll when the consumer reads", async () => {
+      const client = new Trino({ baseUrl: server.url });
+      const rows = client.nodeStream("SELECT 1")[Symbol.asyncIterator]();
+      expect(await rows.next()).toEqual({ done: false, value: [1] });
+      await Bun.sleep(20);
+      expect(requests()).toEqual(["POST /v1/statement", "GET /v1/statement/executing/query_1/1"]);
+
+      await rows.return?.();
+      await Bun.sleep(20);
+      expect(requests().at(-1)).toBe("DELETE /v1/statement/executing/query_1/2");
+    });
+
+    test("should cancel the query when a pipeline fails", async () => {
+      const client = new Trino({ baseUrl: server.url });
+      const sink = new Writable({
+        objectMode: true,
+        write(_row, _encoding, callback) {
+          callback(new Error("disk full"));
+        },
+      });
+
+      await expect(pipeline(client.nodeStream("SELECT 1"), sink)).rejects.toThrow("disk full");
+      // Cancellation completes asynchronously after the pipeline is torn down
+      await Bun.sleep(20);
+      expect(requests().at(-1)).toStartWith("DELETE ");
+    });
+
+    test("should be destroyed with the query error", async () => {
+      fail = true;
+      const client = new Trino({ baseUrl: server.url });
+      const error = await Array.fromAsync(client.nodeStream("SELECT 1 / 0")).catch(
+        (e: unknown) => e,
+      );
+      expect(error).toBeInstanceOf(QueryStreamError);
+      expect(error).toMatchObject({
+        name: "QueryStreamError",
+        error: { _tag: "UserError", errorName: "DIVISION_BY_ZERO" },
+      });
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Stream adapters that deliver the rows of a query with backpressure
+ * The next page is only requested when the consumer reads past the rows already received, and cancelling
+ * the stream cancels the query on the server
+ */
+
+import { Readable } from "node:stream";
+import type { QueryErrorResult, QueryResult, Result } from "./types.js";
+
+/**
+ * Error a Node.js Readable of rows is destroyed with when its query fails
+ */
+export class QueryStreamError extends Error {
+  override readonly name = "QueryStreamError";
+
+  constructor(readonly error: QueryErrorResult) {
+    super("message" in error ? error.message : error._tag);
+  }
+}
+
+/**
+ * Convert the results of executeQuery into a WHATWG ReadableStream of rows
+ * The stream errors with the QueryErrorResult of a failed query
+ * @param results - Results of executeQuery, which the stream consumes
+ */
+export function toRowStream<Row>(
+  results: AsyncGenerator<QueryResult<Row>, void>,
+): ReadableStream<Row> {
+  return new ReadableStream<Row>(
+    {
+      async pull(controller) {
+        let page: Result<Row[] | undefined, QueryErrorResult>;
+        try {
+          page = await nextRows(results);
+        } catch (error) {
+          controller.error(error);
+          return;
+        }
+
+        if (!page.ok) {
+          // Stops the generator, which cancels the query
+          await results.return();
+          controller.error(page.error);
+        } else if (!page.value) {
+          controller.close();
+        } else {
+          for (const row of page.value) {
+            controller.enqueue(row);
+          }
+        }
+      },
+      async cancel() {
+        // Stops the generator, which cancels the query
+        await results.return();
+      },
+    },
+    // Only poll when the consumer reads, rather than to fill a buffer ahead of it
+    { highWaterMark: 0 },
+  );
+}
+
+/**
+ * Convert the results of executeQuery into a Node.js Readable of rows in object mode
+ * The stream is destroyed with a QueryStreamError holding the QueryErrorResult of a failed query, and destroying
+ * it cancels the query
+ * @param results - Results of executeQuery, which the stream consumes
+ */
+export function toNodeReadable<Row>(results: AsyncGenerator<QueryResult<Row>, void>): Readable {
+  return new Readable({
+    objectMode: true,
+    // Only poll when the consumer reads, rather than to fill a buffer ahead of it
+    highWaterMark: 0,
+    // Node.js calls read again once the rows pushed here are consumed
+    read() {
+      nextRows(results).then(
+        (page) => {
+          if (!page.ok) {
+            this.destroy(new QueryStreamError(page.error));
+          } else if (!page.value) {
+            this.push(null);
+          } else {
+            for (const row of page.value) {
+              this.push(row);
+            }
+          }
+        },
+        (error: Error) => this.destroy(error),
+      );
+    },
+    destroy(error, callback) {
+      // Stops the generator, which cancels the query
+      results.return().then(
+        () => callback(error),
+        () => callback(error),
+      );
+    },
+  });
+}
+
+/**
+ * Poll until a page with rows arrives, as pages without data only report progress
+ * @returns The rows of the page, or undefined once the query has completed
+ */
+async function nextRows<Row>(
+  results: AsyncGenerator<QueryResult<Row>, void>,
+): Promise<Result<Row[] | undefined, QueryErrorResult>> {
+  while (true) {
+    const next = await results.next();
+    if (next.done) {
+      return { ok: true, value: undefined };
+    }
+    if (!next.value.ok) {
+      return next.value;
+    }
+    const rows = next.value.value.data;
+    if (rows?.length) {
+      return { ok: true, value: rows };
+    }
+  }
+}
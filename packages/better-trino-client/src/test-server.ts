@@ -0,0 +1,154 @@
+/**
+ * Stub Trino coordinator for the unit tests, so no Trino instance is required
+ */
+
+import type { QueryResults, StatementStats } from "./protocol.js";
+
+/**
+ * Statement stats of a running query with every counter at zero
+ */
+export function statementStats(overrides: Partial<StatementStats> = {}): StatementStats {
+  return {
+    state: "RUNNING",
+    queued: false,
+    scheduled: true,
+    nodes: 1,
+    totalSplits: 0,
+    queuedSplits: 0,
+    runningSplits: 0,
+    completedSplits: 0,
+    planningTimeMillis: 0,
+    analysisTimeMillis: 0,
+    cpuTimeMillis: 0,
+    wallTimeMillis: 0,
+    queuedTimeMillis: 0,
+    elapsedTimeMillis: 0,
+    finishingTimeMillis: 0,
+    physicalInputTimeMillis: 0,
+    processedRows: 0,
+    processedBytes: 0,
+    physicalInputBytes: 0,
+    physicalWrittenBytes: 0,
+    internalNetworkInputBytes: 0,
+    peakMemoryBytes: 0,
+    spilledBytes: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * Response of a finished query without data
+ */
+export function queryResults(overrides: Partial<QueryResults> = {}): QueryResults {
+  return {
+    id: "query_1",
+    infoUri: "http://localhost:8080/ui/query.html?query_1",
+    stats: statementStats({ state: "FINISHED" }),
+    warnings: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Page of a query served by the stub server, with stats merged into the defaults
+ */
+export type StubPage = Omit<Partial<QueryResults>, "stats"> & { stats?: Partial<StatementStats> };
+
+export interface StubRequest {
+  method: string;
+  /** Path and query string */
+  path: string;
+  headers: Headers;
+  body: string;
+}
+
+export interface StubServerOptions {
+  /**
+   * Pages of each query, served in order through nextUri, or a function of the statement request returning them
+   * Pages are linked unless they set nextUri, and the last one is FINISHED unless its stats set a state
+   */
+  pages?: StubPage[] | ((request: StubRequest) => StubPage[]);
+  /** Answer a request instead of the pages (e.g., other endpoints or failures), or return undefined */
+  handle?: (request: StubRequest) => Response | undefined | Promise<Response | undefined>;
+  tls?: { cert: string; key: string };
+}
+
+export interface StubServer {
+  /** Base URL of the server, with a trailing slash */
+  readonly url: string;
+  /** Pages of the next queries (see StubServerOptions.pages) */
+  pages: StubServerOptions["pages"];
+  /** Requests received since the last reset */
+  requests: StubRequest[];
+  /** Forget the received requests */
+  reset(): void;
+  stop(): void;
+}
+
+/**
+ * Start a stub coordinator answering POST /v1/statement with the first page of a query, its nextUri with
+ * the following pages, and cancellations (DELETE) with 204
+ */
+export function startStubServer(options: StubServerOptions = {}): StubServer {
+  // Pages of the last started query, which the nextUri requests read
+  let current: StubPage[] = [];
+
+  const server = Bun.serve({
+    port: 0,
+    tls: options.tls,
+    async fetch(raw): Promise<Response> {
+      const url = new URL(raw.url);
+      const request: StubRequest = {
+        method: raw.method,
+        path: `${url.pathname}${url.search}`,
+        headers: new Headers(raw.headers),
+        body: await raw.text(),
+      };
+      stub.requests.push(request);
+
+      const response = await options.handle?.(request);
+      if (response) {
+        return response;
+      }
+      if (request.method === "DELETE") {
+        return new Response(null, { status: 204 });
+      }
+
+      let index: number;
+      if (request.method === "POST" && url.pathname === "/v1/statement") {
+        current = typeof stub.pages === "function" ? stub.pages(request) : (stub.pages ?? []);
+        index = 0;
+      } else {
+        index = Number(/^\/v1\/statement\/executing\/query_1\/(\d+)$/.exec(url.pathname)?.[1]);
+      }
+      const page = current[index];
+      if (!page) {
+        return new Response("Not found", { status: 404 });
+      }
+
+      const last = index === current.length - 1;
+      const { stats, ...results } = page;
+      return Response.json(
+        queryResults({
+          infoUri: `${stub.url}ui/query.html?query_1`,
+          nextUri: last ? undefined : `${stub.url}v1/statement/executing/query_1/${index + 1}`,
+          ...results,
+          stats: statementStats({ state: last ? "FINISHED" : "RUNNING", ...stats }),
+        }),
+      );
+    },
+  });
+
+  const stub: StubServer = {
+    url: server.url.href,
+    pages: options.pages,
+    requests: [],
+    reset() {
+      stub.requests = [];
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+  return stub;
+}
@@ -0,0 +1,118 @@
+/**
+ * TLS configuration for HTTPS connections to Trino
+ * Bun accepts TLS options in fetch, while on Node requests are sent through node:https since the global fetch
+ * has no TLS options
+ */
+
+import * as https from "node:https";
+import { Readable } from "node:stream";
+import { checkServerIdentity } from "node:tls";
+
+export interface TlsOptions {
+  /** Trusted CA certificates in PEM format, replacing the default trust store */
+  ca?: string | Buffer | Array<string | Buffer>;
+  /** Client certificate chain in PEM format, for mutual TLS */
+  cert?: string | Buffer;
+  /** Private key of the client certificate in PEM format */
+  key?: string | Buffer;
+  /** Passphrase of the private key */
+  passphrase?: string;
+  /** Host name to send for SNI and to verify the server certificate against, instead of the URL host */
+  servername?: string;
+  /** Verify the server certificate (default: true); disable only for testing */
+  rejectUnauthorized?: boolean;
+}
+
+/**
+ * fetch-compatible function that applies TLS options to HTTPS requests
+ */
+export type TlsFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Create a fetch function that applies the TLS options, using the mechanism of the current runtime
+ */
+export function createTlsFetch(options: TlsOptions): TlsFetch {
+  return "Bun" in globalThis ? bunTlsFetch(options) : nodeTlsFetch(options);
+}
+
+/**
+ * Create a fetch function that passes the TLS options to Bun's fetch
+ */
+export function bunTlsFetch(options: TlsOptions): TlsFetch {
+  const { servername, ...tls } = options;
+  const tlsInit = {
+    ...tls,
+    serverName: servername,
+    // Bun only uses serverName for SNI, so the certificate is verified against it explicitly
+    checkServerIdentity: servername
+      ? (_host: string, cert: Parameters<typeof checkServerIdentity>[1]) =>
+          checkServerIdentity(servername, cert)
+      : undefined,
+  };
+  return (url, init) => fetch(url, { ...init, tls: tlsInit } as RequestInit);
+}
+
+/**
+ * Create a fetch function that sends HTTPS requests through node:https with the TLS options
+ * Plain HTTP requests are sent with the global fetch
+ */
+export function nodeTlsFetch(options: TlsOptions): TlsFetch {
+  return (url, init = {}) => {
+    if (!url.startsWith("https:")) {
+      return fetch(url, init);
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = https.request(
+        url,
+        {
+          ...options,
+          method: init.method ?? "GET",
+          headers: init.headers as Record<string, string> | undefined,
+          signal: init.signal ?? undefined,
+        },
+        (response) => {
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(response.headers)) {
+            for (const item of [value ?? []].flat()) {
+              headers.append(name, item);
+            }
+          }
+
+          const status = response.statusCode ?? 0;
+          // Responses to HEAD and null body statuses cannot have a body
+          const nullBody = init.method === "HEAD" || status === 204 || status === 304;
+          if (nullBody) {
+            response.resume();
+          }
+          resolve(
+            new Response(
+              nullBody ? null : (Readable.toWeb(response) as ReadableStream<Uint8Array>),
+              { status, statusText: response.statusMessage, headers },
+            ),
+          );
+        },
+      );
+      request.on("error", reject);
+      request.end(init.body as string | undefined);
+    });
+  };
+}
+
+/**
+ * Check whether a request failed because of the TLS handshake (untrusted or expired certificate, host name
+ * mismatch, rejected client certificate, protocol error, ...) and get its error code
+ * Node's fetch reports the underlying error as the cause
+ */
+export function tlsErrorCode(error: unknown): string | undefined {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    const code = (current as Error & { code?: unknown }).code;
+    if (
+      typeof code === "string" &&
+      /^(ERR_TLS_|ERR_SSL_)|CERT|UNABLE_TO_|HOSTNAME_MISMATCH|^EPROTO$/.test(code)
+    ) {
+      return code;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,147 @@
+/**
+ * Tests for transactions
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from "bun:test";
+import { Trino } from "./index.js";
+import { startTransactionStatement, toTransactionError } from "./transaction.js";
+import type { UserError } from "./protocol.js";
+import { queryResults, startStubServer, statementStats } from "./test-server.js";
+import type { TrinoUserError } from "./types.js";
+
+function userError(errorName: UserError["errorName"]): UserError {
+  return { message: errorName, errorCode: 1, errorName, errorType: "USER_ERROR" };
+}
+
+describe("startTransactionStatement", () => {
+  test("should include the transaction modes", () => {
+    expect(startTransactionStatement()).toBe("START TRANSACTION");
+    expect(startTransactionStatement({ isolationLevel: "SERIALIZABLE", readOnly: true })).toBe(
+      "START TRANSACTION ISOLATION LEVEL SERIALIZABLE, READ ONLY",
+    );
+    expect(startTransactionStatement({ readOnly: false })).toBe("START TRANSACTION READ WRITE");
+  });
+});
+
+describe("toTransactionError", () => {
+  test("should only convert transaction state errors", () => {
+    const conflict: TrinoUserError = { _tag: "UserError", ...userError("TRANSACTION_CONFLICT") };
+    expect(toTransactionError(conflict)).toEqual({
+      _tag: "TransactionError",
+      reason: "TRANSACTION_CONFLICT",
+      cause: conflict,
+    });
+
+    const notFound: TrinoUserError = { _tag: "UserError", ...userError("TABLE_NOT_FOUND") };
+    expect(toTransactionError(notFound)).toBe(notFound);
+  });
+});
+
+describe("Trino.transaction", () => {
+  // Error to answer with, per statement
+  let errors: Record<string, UserError> = {};
+
+  const server = startStubServer({
+    handle: ({ body: statement }) => {
+      const headers: Record<string, string> = {};
+      if (statement.startsWith("START TRANSACTION")) {
+        headers["x-trino-started-transaction-id"] = "tx-1";
+      } else if (statement === "COMMIT" || statement === "ROLLBACK") {
+        headers["x-trino-clear-transaction-id"] = "true";
+      }
+
+      const error = errors[statement];
+      const results = queryResults({
+        error,
+        stats: statementStats({ state: error ? "FAILED" : "FINISHED" }),
+      });
+      return Response.json(results, { headers });
+    },
+  });
+  // Statements received, with the transaction ID they were sent with
+  const statements = () =>
+    server.requests.map((request) => [request.body, request.headers.get("x-trino-transaction-id")]);
+
+  beforeEach(() => {
+    server.reset();
+    errors = {};
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  async function drain(results: AsyncIterable<unknown>) {
+    for await (const _ of results) {
+      // Discard
+    }
+  }
+
+  test("should scope queries to the transaction and commit", async () => {
+    const client = new Trino({ baseUrl: server.url });
+
+    const result = await client.transaction(
+      async (tx) => {
+        await drain(tx.executeQuery("INSERT INTO t VALUES 1"));
+        return tx.id;
+      },
+      { isolationLevel: "READ COMMITTED" },
+    );
+
+    expect(result).toEqual({ ok: true, value: "tx-1" });
+    expect(statements()).toEqual([
+      ["START TRANSACTION ISOLATION LEVEL READ COMMITTED", "NONE"],
+      ["INSERT INTO t VALUES 1", "tx-1"],
+      ["COMMIT", "tx-1"],
+    ]);
+    expect(client.defaultSession.transactionId).toBeUndefined();
+  });
+
+  test("should roll back when a query fails", async () => {
+    errors["INSERT INTO t VALUES 1"] = userError("TRANSACTION_CONFLICT");
+    const client = new Trino({ baseUrl: server.url });
+
+    const result = await client.transaction(async (tx) => {
+      await drain(tx.executeQuery("INSERT INTO t VALUES 1"));
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toMatchObject({
+        _tag: "TransactionError",
+        reason: "TRANSACTION_CONFLICT",
+      });
+    }
+    expect(statements().map(([statement]) => statement)).toEqual([
+      "START TRANSACTION",
+      "INSERT INTO t VALUES 1",
+      "ROLLBACK",
+    ]);
+  });
+
+  test("should roll back and rethrow when the callback throws", async () => {
+    const client = new Trino({ baseUrl: server.url });
+
+    await expect(
+      client.transaction(async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+    expect(statements().map(([statement]) => statement)).toEqual(["START TRANSACTION", "ROLLBACK"]);
+  });
+
+  test("should report commit failures", async () => {
+    errors["COMMIT"] = userError("NOT_IN_TRANSACTION");
+    const client = new Trino({ baseUrl: server.url });
+
+    const result = await client.transaction(async () => 1);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toMatchObject({
+        _tag: "TransactionError",
+        reason: "NOT_IN_TRANSACTION",
+      });
+    }
+  });
+});
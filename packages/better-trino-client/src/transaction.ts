@@ -0,0 +1,88 @@
+/**
+ * Transaction support
+ * Trino transactions are bound to the client session through the x-trino-transaction-id header
+ *
+ * @see https://trino.io/docs/current/sql/start-transaction.html
+ */
+
+import type { QueryOptions } from "./index.js";
+import type { Session } from "./session.js";
+import type { SqlFragment } from "./sql.js";
+import type { QueryErrorResult, QueryResult, TransactionError } from "./types.js";
+
+export type IsolationLevel =
+  | "READ UNCOMMITTED"
+  | "READ COMMITTED"
+  | "REPEATABLE READ"
+  | "SERIALIZABLE";
+
+export interface TransactionOptions {
+  /** Isolation level of the transaction (default: the server default) */
+  isolationLevel?: IsolationLevel;
+  /** Start a READ ONLY (true) or READ WRITE (false) transaction (default: the server default) */
+  readOnly?: boolean;
+  /**
+   * Session the transaction starts from (default: the client's default session)
+   * The transaction runs in a copy of the session, so changes made inside it are not applied to the session
+   */
+  session?: Session;
+}
+
+/**
+ * Handle passed to the transaction callback
+ */
+export interface Transaction {
+  /** ID of the transaction */
+  readonly id: string;
+  /** Session that carries the transaction ID */
+  readonly session: Session;
+  /**
+   * Execute a query within the transaction
+   * Accepts the same options as Trino.executeQuery, except session
+   * A failed result marks the transaction for rollback
+   */
+  executeQuery<Row = unknown[]>(
+    query: string | SqlFragment,
+    options?: Omit<QueryOptions, "session">,
+  ): AsyncGenerator<QueryResult<Row>, void>;
+}
+
+/**
+ * Trino error names that describe the state of the transaction rather than the query
+ */
+const TRANSACTION_ERROR_NAMES: ReadonlySet<string> = new Set<TransactionError["reason"]>([
+  "TRANSACTION_CONFLICT",
+  "NOT_IN_TRANSACTION",
+  "UNKNOWN_TRANSACTION",
+  "TRANSACTION_ALREADY_ABORTED",
+]);
+
+/**
+ * Build the START TRANSACTION statement for the given options
+ */
+export function startTransactionStatement(options?: TransactionOptions): string {
+  const modes: string[] = [];
+  if (options?.isolationLevel) {
+    modes.push(`ISOLATION LEVEL ${options.isolationLevel}`);
+  }
+  if (options?.readOnly !== undefined) {
+    modes.push(options.readOnly ? "READ ONLY" : "READ WRITE");
+  }
+  return modes.length > 0 ? `START TRANSACTION ${modes.join(", ")}` : "START TRANSACTION";
+}
+
+/**
+ * Convert errors about the transaction state into a TransactionError, leaving other errors unchanged
+ */
+export function toTransactionError(
+  error: QueryErrorResult | TransactionError,
+): QueryErrorResult | TransactionError {
+  if (error._tag === "UserError" && TRANSACTION_ERROR_NAMES.has(error.errorName)) {
+    return {
+      _tag: "TransactionError",
+      reason: error.errorName as TransactionError["reason"],
+      cause: error,
+    };
+  }
+  return error;
+}
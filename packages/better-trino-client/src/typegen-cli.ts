@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+/**
+ * better-trino-typegen: generate TypeScript row types from the tables of a Trino server (see generateTypes)
+ *
+ * @example
+ * better-trino-typegen --url http://localhost:8080 --user admin --out src/trino-types.ts tpch.tiny
+ */
+
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { Trino, type AuthConfig } from "./index.js";
+import { generateTypes } from "./typegen.js";
+
+const USAGE = `Usage: better-trino-typegen [options] <catalog[.schema]>...
+
+Generate TypeScript row types for the tables of the given catalogs and schemas
+
+Options:
+  --url <url>             Trino server URL (default: $TRINO_URL or http://localhost:8080)
+  --user <user>           User of the queries (default: $TRINO_USER)
+  --password <password>   Password for basic authentication, requires --user (default: $TRINO_PASSWORD)
+  --token <token>         Token for bearer authentication (default: $TRINO_TOKEN)
+  --table <table>         Only generate types for this table, may be repeated
+  --raw                   Generate types for queries with decode: false
+  --row-format <format>   Row format of the queries: object (default) or array
+  --import-from <module>  Module to import TrinoDecimal from (default: @better-trino/client)
+  -o, --out <file>        Write the types to a file instead of stdout
+  -h, --help              Show this help
+`;
+
+async function main(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      url: { type: "string", default: process.env["TRINO_URL"] ?? "http://localhost:8080" },
+      user: { type: "string", default: process.env["TRINO_USER"] },
+      password: { type: "string", default: process.env["TRINO_PASSWORD"] },
+      token: { type: "string", default: process.env["TRINO_TOKEN"] },
+      table: { type: "string", multiple: true },
+      raw: { type: "boolean", default: false },
+      "row-format": { type: "string", default: "object" },
+      "import-from": { type: "string" },
+      out: { type: "string", short: "o" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const rowFormat = values["row-format"];
+  if (positionals.length === 0 || (rowFormat !== "object" && rowFormat !== "array")) {
+    process.stderr.write(USAGE);
+    return 2;
+  }
+
+  let auth: AuthConfig | undefined;
+  if (values.token) {
+    auth = { type: "bearer", token: values.token };
+  } else if (values.password && values.user) {
+    auth = { type: "basic", username: values.user, password: values.password };
+  }
+  const client = new Trino({
+    baseUrl: values.url,
+    auth,
+    headers: { "x-trino-user": values.user, "x-trino-source": "better-trino-typegen" },
+  });
+
+  const source = await generateTypes(client, {
+    include: positionals,
+    tables: values.table,
+    decode: !values.raw,
+    rowFormat,
+    importFrom: values["import-from"],
+  });
+  if (!source.ok) {
+    const message = "message" in source.error ? `: ${source.error.message}` : "";
+    process.stderr.write(`Failed to read the table schemas (${source.error._tag}${message})\n`);
+    return 1;
+  }
+
+  if (values.out) {
+    await writeFile(values.out, source.value);
+  } else {
+    process.stdout.write(source.value);
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 2;
+  },
+);
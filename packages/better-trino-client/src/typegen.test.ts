@@ -0,0 +1,164 @@
+/**
+ * Tests for TypeScript type generation
+ */
+
+import { describe, test, expect, afterAll, beforeEach } from "bun:test";
+import { Trino } from "./index.js";
+import { parseTypeSignature } from "./signature.js";
+import { startStubServer } from "./test-server.js";
+import { generateTypes, renderTypes, toTypeScriptType, type TypegenTable } from "./typegen.js";
+
+function tsType(type: string, decode?: boolean): string {
+  return toTypeScriptType(parseTypeSignature(type), { decode });
+}
+
+describe("toTypeScriptType", () => {
+  test("should map types to their decoded representation", () => {
+    expect(tsType("bigint")).toBe("bigint");
+    expect(tsType("integer")).toBe("number");
+    expect(tsType("decimal(12,2)")).toBe("TrinoDecimal");
+    expect(tsType("timestamp(3) with time zone")).toBe("Date");
+    expect(tsType("interval day to second")).toBe("number");
+    expect(tsType("varbinary")).toBe("Uint8Array");
+    expect(tsType("varchar(25)")).toBe("string");
+    expect(tsType("time(3)")).toBe("string");
+    expect(tsType("json")).toBe("unknown");
+    expect(tsType("KdbTree")).toBe("unknown");
+  });
+
+  test("should map types to their raw JSON representation without decoding", () => {
+    expect(tsType("bigint", false)).toBe("number");
+    expect(tsType("double", false)).toBe("number | string");
+    expect(tsType("decimal(12,2)", false)).toBe("string");
+    expect(tsType("date", false)).toBe("string");
+    expect(tsType("json", false)).toBe("string");
+  });
+
+  test("should map nested types with nullable elements", () => {
+    expect(tsType("array(varchar)")).toBe("(string | null)[]");
+    expect(tsType("map(varchar, array(bigint))")).toBe("Map<string, (bigint | null)[] | null>");
+    expect(tsType('row(id bigint, "first name" varchar, double)')).toBe(
+      '{ id: bigint | null; "first name": string | null; field2: number | null }',
+    );
+
+    expect(tsType("map(varchar, bigint)", false)).toBe("Record<string, number | null>");
+    expect(tsType("row(id bigint, name varchar)", false)).toBe("[number | null, string | null]");
+  });
+
+  test("should use type overrides", () => {
+    const signature = parseTypeSignature("array(uuid)");
+    expect(toTypeScriptType(signature, { typeOverrides: { uuid: "UUID" } })).toBe(
+      "(UUID | null)[]",
+    );
+  });
+});
+
+describe("renderTypes", () => {
+  const nation: TypegenTable = {
+    catalog: "tpch",
+    schema: "tiny",
+    name: "nation",
+    columns: [
+      { name: "nationkey", type: "bigint", nullable: false },
+      { name: "name", type: "varchar(25)", nullable: true },
+    ],
+  };
+
+  test("should render interfaces", () => {
+    expect(renderTypes([nation])).toBe(`// Generated by better-trino-typegen, do not edit
+
+/** tpch.tiny.nation */
+export interface Nation {
+  nationkey: bigint;
+  name: string | null;
+}
+`);
+  });
+
+  test("should render tuples for the array row format", () => {
+    expect(renderTypes([nation], { rowFormat: "array", decode: false })).toContain(
+      "export type Nation = [\n  nationkey: number,\n  name: string | null,\n];",
+    );
+    const quoted = { ...nation, columns: [{ name: "my col", type: "bigint", nullable: false }] };
+    expect(renderTypes([quoted], { rowFormat: "array" })).toContain("= [\n  bigint,\n];");
+  });
+
+  test("should import TrinoDecimal when it is used", () => {
+    const orders: TypegenTable = {
+      catalog: "tpch",
+      schema: "tiny",
+      name: "line_items",
+      columns: [{ name: "total price", type: "decimal(12,2)", nullable: true }],
+    };
+    const source = renderTypes([orders], { importFrom: "../client" });
+    expect(source).toContain('import type { TrinoDecimal } from "../client";');
+    expect(source).toContain(
+      'export interface LineItems {\n  "total price": TrinoDecimal | null;\n}',
+    );
+  });
+
+  test("should qualify conflicting type names", () => {
+    const source = renderTypes([
+      nation,
+      { ...nation, schema: "sf1" },
+      { ...nation, name: "region" },
+      { ...nation, catalog: "hive", name: "region" },
+    ]);
+    expect([...source.matchAll(/export interface (\w+)/g)].map((match) => match[1])).toEqual([
+      "TinyNation",
+      "Sf1Nation",
+      "TpchTinyRegion",
+      "HiveTinyRegion",
+    ]);
+  });
+});
+
+describe("generateTypes", () => {
+  const server = startStubServer({
+    pages: (request) => [
+      {
+        columns: [],
+        data: request.body.includes('FROM "tpch"')
+          ? [
+              ["tiny", "nation", "nationkey", "bigint", "NO"],
+              ["tiny", "nation", "name", "varchar(25)", "YES"],
+              ["tiny", "region", "regionkey", "bigint", "NO"],
+            ]
+          : [["sales", "orders", "placed_at", "timestamp(6) with time zone", "YES"]],
+      },
+    ],
+  });
+
+  const client = new Trino({ baseUrl: server.url });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  test("should query the columns of each catalog and render their tables", async () => {
+    const source = await generateTypes(client, {
+      include: ["tpch.tiny", "tpch.sf1", "iceberg"],
+      tables: ["nation", "region", "orders"],
+    });
+    expect(source.ok).toBe(true);
+    if (!source.ok) return;
+
+    const queries = server.requests.map((request) => request.body);
+    expect(queries).toHaveLength(2);
+    expect(queries[0]).toContain('FROM "tpch"."information_schema"."columns"');
+    expect(queries[0]).toContain("table_schema IN ('tiny', 'sf1')");
+    expect(queries[0]).toContain("table_name IN ('nation', 'region', 'orders')");
+    expect(queries[1]).toContain("table_schema <> 'information_schema'");
+
+    expect([...source.value.matchAll(/export interface (\w+)/g)].map((match) => match[1])).toEqual([
+      "Nation",
+      "Region",
+      "Orders",
+    ]);
+    expect(source.value).toContain("  placed_at: Date | null;\n");
+  });
+});
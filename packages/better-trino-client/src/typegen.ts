@@ -0,0 +1,297 @@
+/**
+ * Generation of TypeScript row types from table schemas
+ * Reads information_schema.columns and maps each column type to the JS value the client returns for it,
+ * so that executeQuery<Row> calls can be checked at compile time
+ *
+ * @example
+ * const source = await generateTypes(client, { include: ["tpch.tiny"] });
+ * if (source.ok) await Bun.write("src/trino-types.ts", source.value);
+ */
+
+import type { Trino } from "./index.js";
+import type { MetadataOptions } from "./metadata.js";
+import { ClientStandardTypes, type ClientTypeSignature } from "./protocol.js";
+import { parseTypeSignature, rowFields, typeArgument } from "./signature.js";
+import { sql } from "./sql.js";
+import type { QueryErrorResult, Result } from "./types.js";
+
+export interface TypegenColumn {
+  name: string;
+  /** Type name as reported by information_schema.columns (e.g., "varchar(25)") */
+  type: string;
+  nullable: boolean;
+}
+
+export interface TypegenTable {
+  catalog: string;
+  schema: string;
+  name: string;
+  /** Columns in the order of the table */
+  columns: TypegenColumn[];
+}
+
+export interface RenderTypesOptions {
+  /**
+   * Whether queries decode values (QueryOptions.decode), which determines the JS representation of each
+   * type (default: true)
+   */
+  decode?: boolean;
+  /** Row shape of the queries (QueryOptions.rowFormat): interfaces for "object" (default), tuples for "array" */
+  rowFormat?: "array" | "object";
+  /** TypeScript types to use for raw types, e.g. for types decoded by DecodeOptions.overrides */
+  typeOverrides?: Record<string, string>;
+  /** Name of the row type of a table (default: the table name in PascalCase, qualified on conflicts) */
+  typeName?: (table: TypegenTable) => string;
+  /** Module to import TrinoDecimal from (default: "@better-trino/client") */
+  importFrom?: string;
+}
+
+export interface GenerateTypesOptions extends RenderTypesOptions, MetadataOptions {
+  /**
+   * Catalogs and schemas to generate types for, as "catalog" or "catalog.schema" (e.g., ["tpch.tiny", "iceberg"])
+   * Whole catalogs exclude their information_schema
+   */
+  include: string[];
+  /** Only generate types for these tables */
+  tables?: string[];
+}
+
+/**
+ * Read the columns of the included schemas and render row types for their tables
+ * @param client - Client used to query information_schema.columns, one query per catalog
+ * @param options - Schemas to include and how to render their types (see RenderTypesOptions)
+ * @returns TypeScript source with one exported row type per table
+ */
+export async function generateTypes(
+  client: Trino,
+  options: GenerateTypesOptions,
+): Promise<Result<string, QueryErrorResult>> {
+  const {
+    include,
+    tables: tableNames,
+    headers,
+    session,
+    signal,
+    timeoutMs,
+    ...renderOptions
+  } = options;
+  // Schemas to include by catalog, undefined for all schemas of the catalog
+  const schemasByCatalog = new Map<string, string[] | undefined>();
+  for (const entry of include) {
+    const separator = entry.indexOf(".");
+    if (separator === -1) {
+      schemasByCatalog.set(entry, undefined);
+      continue;
+    }
+    const catalog = entry.slice(0, separator);
+    const schemas = schemasByCatalog.has(catalog) ? schemasByCatalog.get(catalog) : [];
+    schemas?.push(entry.slice(separator + 1));
+    schemasByCatalog.set(catalog, schemas);
+  }
+
+  const tables: TypegenTable[] = [];
+  for (const [catalog, schemas] of schemasByCatalog) {
+    const filters = [
+      schemas
+        ? sql`table_schema IN (${sql.join(schemas)})`
+        : sql`table_schema <> 'information_schema'`,
+      ...(tableNames ? [sql`table_name IN (${sql.join(tableNames)})`] : []),
+    ];
+    const query = sql`SELECT table_schema, table_name, column_name, data_type, is_nullable
+      FROM ${sql.id(catalog, "information_schema", "columns")}
+      WHERE ${sql.join(filters, " AND ")}
+      ORDER BY table_schema, table_name, ordinal_position`;
+
+    for await (const result of client.executeQuery(query, {
+      headers,
+      session,
+      signal,
+      timeoutMs,
+      decode: false,
+      rowFormat: "array",
+    })) {
+      if (!result.ok) {
+        return result;
+      }
+      for (const row of result.value.data ?? []) {
+        const [schema, name, column, type, nullable] = row as string[];
+        let table = tables.at(-1);
+        if (table?.catalog !== catalog || table.schema !== schema || table.name !== name) {
+          table = { catalog, schema: schema!, name: name!, columns: [] };
+          tables.push(table);
+        }
+        table.columns.push({ name: column!, type: type!, nullable: nullable !== "NO" });
+      }
+    }
+  }
+
+  return { ok: true, value: renderTypes(tables, renderOptions) };
+}
+
+/**
+ * Render the row types of tables as TypeScript source
+ */
+export function renderTypes(tables: TypegenTable[], options: RenderTypesOptions = {}): string {
+  const names = typeNames(tables, options.typeName);
+  const declarations = tables.map((table, index) => {
+    const name = names[index]!;
+    const columns = table.columns.map((column) => {
+      const type = columnType(column.type, options);
+      return { ...column, tsType: column.nullable ? `${type} | null` : type };
+    });
+    const comment = `/** ${table.catalog}.${table.schema}.${table.name} */`;
+
+    if (options.rowFormat === "array") {
+      // Tuple elements are either all labeled or all unlabeled
+      const labeled = columns.every((column) => IDENTIFIER.test(column.name));
+      const elements = columns.map((column) =>
+        labeled ? `${column.name}: ${column.tsType}` : column.tsType,
+      );
+      return `${comment}\nexport type ${name} = [\n${elements.map((e) => `  ${e},\n`).join("")}];\n`;
+    }
+    const properties = columns.map(
+      (column) => `  ${propertyName(column.name)}: ${column.tsType};\n`,
+    );
+    return `${comment}\nexport interface ${name} {\n${properties.join("")}}\n`;
+  });
+
+  const source = declarations.join("\n");
+  const imports = /\bTrinoDecimal\b/.test(source)
+    ? `import type { TrinoDecimal } from "${options.importFrom ?? "@better-trino/client"}";\n\n`
+    : "";
+  return `// Generated by better-trino-typegen, do not edit\n\n${imports}${source}`;
+}
+
+/**
+ * Map a type signature to the TypeScript type of its values as returned by the client
+ *
+ * Decoded values follow decodeValue (bigint → bigint, decimal → TrinoDecimal, date and timestamps → Date, ...),
+ * raw values follow the JSON of the client protocol. Elements, map values and row fields may be null.
+ * Types without a known representation map to unknown.
+ */
+export function toTypeScriptType(
+  signature: ClientTypeSignature,
+  options: Pick<RenderTypesOptions, "decode" | "typeOverrides"> = {},
+): string {
+  const override = options.typeOverrides?.[signature.rawType];
+  if (override !== undefined) {
+    return override;
+  }
+
+  const decode = options.decode ?? true;
+  const nested = (inner: ClientTypeSignature | undefined): string =>
+    inner ? toTypeScriptType(inner, options) : "unknown";
+
+  switch (signature.rawType) {
+    case ClientStandardTypes.BOOLEAN:
+      return "boolean";
+    case ClientStandardTypes.TINYINT:
+    case ClientStandardTypes.SMALLINT:
+    case ClientStandardTypes.INTEGER:
+      return "number";
+    case ClientStandardTypes.BIGINT:
+      return decode ? "bigint" : "number";
+    case ClientStandardTypes.REAL:
+    case ClientStandardTypes.DOUBLE:
+      // NaN and ±Infinity are sent as strings
+      return decode ? "number" : "number | string";
+    case ClientStandardTypes.DECIMAL:
+      return decode ? "TrinoDecimal" : "string";
+    case ClientStandardTypes.DATE:
+    case ClientStandardTypes.TIMESTAMP:
+    case ClientStandardTypes.TIMESTAMP_WITH_TIME_ZONE:
+      return decode ? "Date" : "string";
+    case ClientStandardTypes.INTERVAL_DAY_TO_SECOND:
+    case ClientStandardTypes.INTERVAL_YEAR_TO_MONTH:
+      return decode ? "number" : "string";
+    case ClientStandardTypes.VARBINARY:
+      return decode ? "Uint8Array" : "string";
+    case ClientStandardTypes.JSON:
+      return decode ? "unknown" : "string";
+    case ClientStandardTypes.VARCHAR:
+    case ClientStandardTypes.CHAR:
+    case ClientStandardTypes.TIME:
+    case ClientStandardTypes.TIME_WITH_TIME_ZONE:
+    case ClientStandardTypes.UUID:
+    case ClientStandardTypes.IPADDRESS:
+    case ClientStandardTypes.JSON_2016:
+    case ClientStandardTypes.GEOMETRY:
+    case ClientStandardTypes.SPHERICAL_GEOGRAPHY:
+    case ClientStandardTypes.HYPER_LOG_LOG:
+    case ClientStandardTypes.P4_HYPER_LOG_LOG:
+    case ClientStandardTypes.SET_DIGEST:
+    case ClientStandardTypes.QDIGEST:
+    case ClientStandardTypes.TDIGEST:
+      return "string";
+    case ClientStandardTypes.ARRAY:
+      return `(${nested(typeArgument(signature, 0))} | null)[]`;
+    case ClientStandardTypes.MAP: {
+      const value = `${nested(typeArgument(signature, 1))} | null`;
+      return decode
+        ? `Map<${nested(typeArgument(signature, 0))}, ${value}>`
+        : `Record<string, ${value}>`;
+    }
+    case ClientStandardTypes.ROW: {
+      const fields = rowFields(signature).map((field) => ({
+        name: field.name,
+        type: `${nested(field.type)} | null`,
+      }));
+      return decode
+        ? `{ ${fields.map((field) => `${propertyName(field.name)}: ${field.type}`).join("; ")} }`
+        : `[${fields.map((field) => field.type).join(", ")}]`;
+    }
+    default:
+      return "unknown";
+  }
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function propertyName(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Map a type name to a TypeScript type, falling back to unknown for types the parser does not understand
+ */
+function columnType(type: string, options: RenderTypesOptions): string {
+  try {
+    return toTypeScriptType(parseTypeSignature(type), options);
+  } catch {
+    return options.typeOverrides?.[type] ?? "unknown";
+  }
+}
+
+/**
+ * Name the row types in PascalCase, qualifying a table name with its schema, then its catalog, when tables
+ * of different schemas share it
+ */
+function typeNames(tables: TypegenTable[], typeName?: (table: TypegenTable) => string): string[] {
+  if (typeName) {
+    return tables.map(typeName);
+  }
+  const candidates = tables.map((table) => [
+    pascalCase(table.name),
+    pascalCase(`${table.schema}_${table.name}`),
+    pascalCase(`${table.catalog}_${table.schema}_${table.name}`),
+  ]);
+  return candidates.map((names) => {
+    const unique = names.find(
+      (name, level) => candidates.filter((other) => other[level] === name).length === 1,
+    );
+    return unique ?? names[2]!;
+  });
+}
+
+/**
+ * Convert a table name to a PascalCase identifier
+ * @example pascalCase("order_items") // "OrderItems"
+ */
+function pascalCase(name: string): string {
+  const identifier = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0]!.toUpperCase() + word.slice(1))
+    .join("");
+  return /^[A-Za-z]/.test(identifier) ? identifier : `T${identifier}`;
+}
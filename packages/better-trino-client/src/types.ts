@@ -4,12 +4,16 @@
  */
 
 import type {
+  Column,
   UserError,
   InternalError,
   ExternalError,
   InsufficientResourcesError,
   QueryResults,
+  StatementStats,
+  Warning,
 } from "./protocol.js";
+import type { StandardSchemaIssue } from "./schema.js";
 
 /**
  * Branded type for fetch/network errors (network failures, connection issues, etc.)
@@ -19,6 +23,17 @@ export interface FetchError {
   readonly error: unknown;
 }
 
+/**
+ * Branded type for failed TLS handshakes (untrusted or expired server certificate, host name mismatch,
+ * rejected client certificate, etc.)
+ */
+export interface TlsError {
+  readonly _tag: "TlsError";
+  /** Error code of the runtime (e.g., "UNABLE_TO_VERIFY_LEAF_SIGNATURE", "ERR_TLS_CERT_ALTNAME_INVALID") */
+  readonly code: string;
+  readonly error: unknown;
+}
+
 /**
  * Branded type for HTTP errors (non-2xx status codes)
  * The status and statusText can be accessed via response.status and response.statusText
@@ -26,6 +41,117 @@ export interface FetchError {
 export interface HttpError {
   readonly _tag: "HttpError";
   readonly response: Response;
+  /** Number of times the request was retried before failing, for requests subject to retries */
+  readonly retries?: number;
+}
+
+/**
+ * Branded type for aborted queries (the AbortSignal passed in QueryOptions fired)
+ */
+export interface AbortError {
+  readonly _tag: "AbortError";
+  /** The abort reason of the signal */
+  readonly reason: unknown;
+}
+
+/**
+ * Branded type for queries that exceeded their client-side deadline (timeoutMs)
+ * The query is cancelled on the server when the deadline expires
+ */
+export interface TimeoutError {
+  readonly _tag: "TimeoutError";
+  /** The deadline that was exceeded, in milliseconds */
+  readonly timeoutMs: number;
+  /** The last statistics observed before the deadline, e.g. to tell whether the query was still queued */
+  readonly stats?: StatementStats;
+}
+
+/**
+ * Branded type for failed authentication: the OAuth2 flow failed (e.g., the token server reported an error
+ * or timed out) or the token provider threw
+ */
+export interface AuthenticationError {
+  readonly _tag: "AuthenticationError";
+  readonly message: string;
+}
+
+/**
+ * Branded type for query parameters (QueryOptions.params) or values interpolated into a sql template
+ * that cannot be rendered as SQL literals
+ * The query is not submitted to the server
+ */
+export interface ParameterError {
+  readonly _tag: "ParameterError";
+  /** Position of the offending parameter, or of the value within the sql fragment */
+  readonly index: number;
+  readonly message: string;
+}
+
+/**
+ * Branded type for result values that cannot be decoded (QueryOptions.decode), such as a malformed json value
+ * or a value a decoder override throws for
+ * The query is cancelled on the server when decoding fails
+ */
+export interface DecodeError {
+  readonly _tag: "DecodeError";
+  /** The error thrown by the decoder */
+  readonly error: unknown;
+  readonly message: string;
+}
+
+/**
+ * Branded type for transactions that failed because of their state rather than a query (Trino.transaction)
+ * TRANSACTION_CONFLICT means a concurrent transaction changed the same data, so the transaction can be retried
+ */
+export interface TransactionError {
+  readonly _tag: "TransactionError";
+  readonly reason:
+    | "TRANSACTION_CONFLICT"
+    | "NOT_IN_TRANSACTION"
+    | "UNKNOWN_TRANSACTION"
+    | "TRANSACTION_ALREADY_ABORTED";
+  /** The error reported by Trino, absent when the server did not start a transaction */
+  readonly cause?: TrinoUserError;
+}
+
+/**
+ * Branded type for collected queries that exceeded a row or byte limit (Trino.query)
+ * The query is cancelled on the server when a limit is exceeded
+ */
+export interface LimitExceededError {
+  readonly _tag: "LimitExceededError";
+  readonly limit: "maxRows" | "maxBytes";
+  /** The configured value of the limit */
+  readonly max: number;
+}
+
+/**
+ * Branded type for EXPLAIN plans that cannot be parsed (Trino.explain)
+ * The plan was received, so unlike a FetchError the failure is not transient
+ */
+export interface ParseError {
+  readonly _tag: "ParseError";
+  /** The plan as returned by Trino */
+  readonly text: string;
+  /** The error thrown by the parser */
+  readonly error: unknown;
+  readonly message: string;
+}
+
+/**
+ * Branded type for columns or rows rejected by the schema of a query (QueryOptions.schema)
+ * The query is cancelled on the server when validation fails
+ */
+export interface ValidationError {
+  readonly _tag: "ValidationError";
+  /** Index of the rejected row among all rows of the query, absent when the columns metadata was rejected */
+  readonly rowIndex?: number;
+  /** Name of the column the first issue refers to, when known */
+  readonly column?: string;
+  /** Issues reported by the schema */
+  readonly issues: readonly StandardSchemaIssue[];
+  /** Message of the first issue */
+  readonly message: string;
 }
 
 /**
@@ -73,15 +199,49 @@ export type Result<T, E> = { ok: true; value: T } | { ok: false; error: E };
 
 /**
  * Successful query result without error field
+ * Row is the type of each entry in data: positional arrays by default, or objects when rowFormat is "object"
  */
-export type QuerySuccessResult = Omit<QueryResults, "error">;
+export type QuerySuccessResult<Row = unknown[]> = Omit<QueryResults, "error" | "data"> & {
+  /** Result data rows */
+  data?: Row[] | null;
+};
 
 /**
  * Discriminated union of all possible error types
  */
-export type QueryErrorResult = FetchError | HttpError | TrinoQueryError;
+export type QueryErrorResult =
+  | FetchError
+  | TlsError
+  | HttpError
+  | AbortError
+  | AuthenticationError
+  | TimeoutError
+  | ParameterError
+  | ValidationError
+  | DecodeError
+  | TrinoQueryError;
 
 /**
  * Main result type that handles fetch, HTTP, and query errors
  */
-export type QueryResult = Result<QuerySuccessResult, QueryErrorResult>;
+export type QueryResult<Row = unknown[]> = Result<QuerySuccessResult<Row>, QueryErrorResult>;
+
+/**
+ * Pages of a query merged into one result (Trino.query)
+ */
+export interface CollectedResult<Row = unknown[]> {
+  /** The ID of the query */
+  id: string;
+  /** Column definitions, empty for statements without a result set */
+  columns: Column[];
+  /** Rows of all pages, in order */
+  rows: Row[];
+  /** Statistics of the last response */
+  stats: StatementStats;
+  /** Warnings of the last response */
+  warnings: Warning[];
+  /** Type of update operation (e.g., "INSERT", "CREATE TABLE") */
+  updateType?: string;
+  /** Number of rows updated (for DML operations) */
+  updateCount?: number;
+}